@@ -0,0 +1,81 @@
+import { AirportsService } from './airports.service';
+import { readOurAirports } from './ourairports';
+import { EndTick } from './airport-matcher';
+
+// two airports 100 km apart, one east-west runway each ("09"/"27" ends at ~0.03 deg of longitude)
+const AIRPORTS_CSV = `"id","ident","type","name","latitude_deg","longitude_deg","elevation_ft","iso_country","municipality","iata_code"
+1,"XAAA","large_airport","Alpha, International",50.0,8.0,300,"DE","Alpha","AAA"
+2,"XBBB","medium_airport","Bravo Field",50.0,9.4,300,"DE","Bravo",""
+3,"XHEL","heliport","Alpha Heliport",50.001,8.001,300,"DE","Alpha",""
+`;
+const RUNWAYS_CSV = `"airport_ident","length_ft","width_ft","surface","closed","le_ident","le_latitude_deg","le_longitude_deg","he_ident","he_latitude_deg","he_longitude_deg"
+"XAAA",7000,150,"ASP",0,"09",50.0,7.985,"27",50.0,8.015
+"XBBB",7000,150,"ASP",0,"09",50.0,9.385,"27",50.0,9.415
+"XBBB",3000,100,"GRS",1,"18",50.01,9.4,"36",49.99,9.4
+`;
+
+const tick = (ts: number, lat: number | null, lon: number | null, air: 0 | 1, magHeading: number | null = null): EndTick => ({
+  ts: ts * 1000,
+  latitude: lat,
+  longitude: lon,
+  magHeading,
+  airGround: air,
+  computedAirspeed: air ? 150 : 10,
+});
+
+function setup() {
+  const airports = new AirportsService();
+  airports.load(readOurAirports(AIRPORTS_CSV, RUNWAYS_CSV));
+  return airports;
+}
+
+describe('identifyAirports', () => {
+  it('finds the airports of the first and last ground fixes and the runways of the rolls', () => {
+    const ticks = [
+      tick(0, 50.002, 8.0, 0, 350), // parked
+      tick(60, 50.0, 7.99, 0, 92), // lined up on 09
+      tick(90, 50.0, 8.01, 0, 91), // liftoff
+      tick(100, 50.0, 8.02, 1, 90),
+      tick(900, 50.0, 9.43, 1, 270),
+      tick(910, 50.0, 9.41, 0, null), // touchdown, heading from the landing roll
+      tick(930, 50.0, 9.395, 0, null),
+      tick(990, 50.003, 9.4, 0, 10), // parked
+    ];
+    const { departure, arrival } = setup().identify(ticks);
+    expect(departure).toMatchObject({ airport: { ident: 'XAAA', iata: 'AAA', name: 'Alpha, International' }, runway: '09' });
+    expect(arrival).toMatchObject({ airport: { ident: 'XBBB', iata: null }, runway: '27' });
+  });
+
+  it('leaves out the ends recorded in the air and runways nothing lines up with', () => {
+    const ticks = [
+      tick(0, 50.0, 8.5, 1, 90),
+      tick(10, 50.0, 9.0, 1, 90),
+      tick(20, 50.0, 9.4, 0, 180), // across the runway, near the closed one
+      tick(30, 50.002, 9.401, 0, 180),
+    ];
+    const { departure, arrival } = setup().identify(ticks);
+    expect(departure).toBeNull();
+    expect(arrival?.airport.ident).toBe('XBBB');
+    expect(arrival?.runway).toBeNull();
+  });
+
+  it('matches nothing far from every airport', () => {
+    const ticks = [tick(0, 52.0, 8.0, 0, 90), tick(10, 52.0, 8.01, 0, 90)];
+    expect(setup().identify(ticks)).toEqual({ departure: null, arrival: null });
+  });
+});
+
+describe('AirportsService.search', () => {
+  it('puts codes before names and skips heliports', () => {
+    const airports = setup();
+    expect(airports.search('aaa').map((a) => a.ident)).toEqual(['XAAA']);
+    expect(airports.search('alpha').map((a) => a.ident)).toEqual(['XAAA']);
+  });
+
+  it('filters flights by exact codes only', () => {
+    const airports = setup();
+    expect(airports.identsFor(' aaa ')).toEqual(['XAAA']);
+    expect(airports.identsFor('alpha')).toEqual(['ALPHA']);
+    expect(airports.identsFor('nowhere')).toEqual(['NOWHERE']);
+  });
+});
@@ -0,0 +1,136 @@
+// src/airports/airport-matcher.ts
+import { Airport, Runway } from './ourairports';
+import { bearingDeg, greatCircleM } from '../pilot/derived';
+import { isAirborne } from '../pilot/data-quality';
+
+/** What the matcher reads; FdrTick has all of it. */
+export type EndTick = {
+  ts: number;
+  latitude: number | null;
+  longitude: number | null;
+  magHeading: number | null;
+  airGround: number | null;
+  computedAirspeed: number | null;
+};
+
+export type AirportMatch = {
+  airport: Airport;
+  runway: string | null; // the runway end used, e.g. "25C"; null when the roll lined up with none
+};
+
+export type FlightAirports = { departure: AirportMatch | null; arrival: AirportMatch | null };
+
+/** Airports whose reference point lies within `radiusM` of a position. */
+export type NearbyAirports = (lat: number, lon: number, radiusM: number) => Airport[];
+
+// a parked aircraft further from every reference point is at none we know
+const AIRPORT_RADIUS_M = 5000;
+// airports whose runways may pass under the liftoff or touchdown point
+const RUNWAY_SEARCH_M = 8000;
+const RUNWAY_OFFSET_M = 150; // off the centerline: half a runway's width plus GPS error
+const RUNWAY_OVERRUN_M = 300; // beyond either threshold
+// magnetic heading against the runway's true direction, so variation included
+const HEADING_TOLERANCE_DEG = 30;
+// where heading is not recorded, the track over the roll: fixes at least this far apart, within this time
+const MIN_ROLL_M = 100;
+const ROLL_MS = 30_000;
+
+const DEG = Math.PI / 180;
+const M_PER_DEG = 111_195;
+
+const headingDelta = (a: number, b: number) => Math.abs(((b - a + 540) % 360) - 180);
+
+/** The end of `rwy` an aircraft at lat/lon moving along `heading` uses, with its distance off the centerline. */
+function runwayEnd(rwy: Runway, lat: number, lon: number, heading: number): { ident: string; offsetM: number } | null {
+  const [a, b] = rwy.ends;
+  // flat-earth metres around the low end: runways are short enough
+  const kx = Math.cos(a.latitude * DEG) * M_PER_DEG;
+  const [bx, by] = [(b.longitude - a.longitude) * kx, (b.latitude - a.latitude) * M_PER_DEG];
+  const [px, py] = [(lon - a.longitude) * kx, (lat - a.latitude) * M_PER_DEG];
+  const length = Math.hypot(bx, by);
+  if (!length) return null;
+  const along = (px * bx + py * by) / length;
+  const offsetM = Math.abs(px * by - py * bx) / length;
+  if (along < -RUNWAY_OVERRUN_M || along > length + RUNWAY_OVERRUN_M || offsetM > RUNWAY_OFFSET_M) return null;
+
+  // a runway is named after the direction it is used in: moving low end to high end is the low end's
+  const axis = (Math.atan2(bx, by) / DEG + 360) % 360;
+  if (headingDelta(heading, axis) <= HEADING_TOLERANCE_DEG) return { ident: a.ident, offsetM };
+  if (headingDelta(heading, axis + 180) <= HEADING_TOLERANCE_DEG) return { ident: b.ident, offsetM };
+  return null;
+}
+
+/**
+ * Departure and arrival of a flight: the airports of its first and last
+ * on-ground positions, and the runways its takeoff and landing rolls line up
+ * with. A recording that starts or ends in the air has no departure or
+ * arrival to find.
+ */
+export function identifyAirports(ticks: readonly EndTick[], nearby: NearbyAirports): FlightAirports {
+  const ground: number[] = [];
+  let firstAir = -1;
+  let lastAir = -1;
+  ticks.forEach((t, i) => {
+    if (isAirborne(t)) {
+      if (firstAir < 0) firstAir = i;
+      lastAir = i;
+    } else if (t.latitude != null && t.longitude != null) ground.push(i);
+  });
+  if (!ground.length) return { departure: null, arrival: null };
+  // never airborne: a taxi or engine run, on the ground at both ends
+  if (firstAir < 0) return { departure: locate(ticks, ground[0], null, nearby), arrival: locate(ticks, ground.at(-1)!, null, nearby) };
+
+  const before = ground.filter((i) => i < firstAir);
+  const after = ground.filter((i) => i > lastAir);
+  return {
+    departure: before.length ? locate(ticks, before[0], { at: before.at(-1)!, dir: -1 }, nearby) : null,
+    arrival: after.length ? locate(ticks, after.at(-1)!, { at: after[0], dir: 1 }, nearby) : null,
+  };
+}
+
+/**
+ * The airport a parked position belongs to; the roll, liftoff (looking back,
+ * dir -1) or touchdown (looking ahead, dir 1), picks the runway and, when it
+ * lines up with one, settles the airport too.
+ */
+function locate(
+  ticks: readonly EndTick[],
+  parked: number,
+  roll: { at: number; dir: 1 | -1 } | null,
+  nearby: NearbyAirports,
+): AirportMatch | null {
+  const heading = roll && headingOnRoll(ticks, roll.at, roll.dir);
+  if (roll && heading != null) {
+    const { latitude: lat, longitude: lon } = ticks[roll.at] as { latitude: number; longitude: number };
+    let best: { airport: Airport; ident: string; offsetM: number } | null = null;
+    for (const airport of nearby(lat, lon, RUNWAY_SEARCH_M)) {
+      for (const rwy of airport.runways) {
+        const end = runwayEnd(rwy, lat, lon, heading);
+        if (end && (!best || end.offsetM < best.offsetM)) best = { airport, ...end };
+      }
+    }
+    if (best) return { airport: best.airport, runway: best.ident };
+  }
+
+  const { latitude: lat, longitude: lon } = ticks[parked] as { latitude: number; longitude: number };
+  let nearest: Airport | null = null;
+  let nearestM = Infinity;
+  for (const airport of nearby(lat, lon, AIRPORT_RADIUS_M)) {
+    const d = greatCircleM(lat, lon, airport.latitude, airport.longitude);
+    if (d < nearestM) [nearest, nearestM] = [airport, d];
+  }
+  return nearest && { airport: nearest, runway: null };
+}
+
+/** Recorded heading at the roll point, else the ground track over the roll next to it. */
+function headingOnRoll(ticks: readonly EndTick[], at: number, dir: 1 | -1): number | null {
+  if (ticks[at].magHeading != null) return ticks[at].magHeading;
+  const p = ticks[at] as { ts: number; latitude: number; longitude: number };
+  for (let j = at + dir; j >= 0 && j < ticks.length && Math.abs(ticks[j].ts - p.ts) <= ROLL_MS; j += dir) {
+    const q = ticks[j];
+    if (q.latitude == null || q.longitude == null || isAirborne(q)) continue;
+    if (greatCircleM(p.latitude, p.longitude, q.latitude, q.longitude) < MIN_ROLL_M) continue;
+    return dir < 0 ? bearingDeg(q.latitude, q.longitude, p.latitude, p.longitude) : bearingDeg(p.latitude, p.longitude, q.latitude, q.longitude);
+  }
+  return null;
+}
@@ -0,0 +1,26 @@
+// src/airports/airports.controller.ts
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { AirportsService } from './airports.service';
+import { SearchAirportsDto } from './dto/search-airports.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('airports')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'pilot', 'viewer')
+export class AirportsController {
+  constructor(private readonly airports: AirportsService) {}
+
+  // without runways: a name search can match hundreds in the full dataset
+  @Get()
+  search(@Query() q: SearchAirportsDto) {
+    const airports = this.airports.search(q.q, q.limit).map((a) => ({ ...a, runways: undefined }));
+    return { airports };
+  }
+
+  @Get(':code')
+  findOne(@Param('code') code: string) {
+    return this.airports.findOne(code);
+  }
+}
@@ -0,0 +1,107 @@
+// src/airports/airports.service.ts
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Airport, readOurAirports } from './ourairports';
+import { EndTick, FlightAirports, identifyAirports } from './airport-matcher';
+import { greatCircleM } from '../pilot/derived';
+
+// read per call: .env is loaded after modules are built. The bundled subset
+// covers a few large airports; point this at a full OurAirports download for the rest.
+const dataDir = () => process.env.AIRPORTS_DATA_DIR || join(__dirname, 'data');
+
+const CELL_DEG = 1; // grid cells for the position lookups; searches never reach past the next cell
+
+/**
+ * The airport and runway dataset, loaded once from OurAirports CSV files and
+ * kept in memory: flights are matched against it on every import.
+ */
+@Injectable()
+export class AirportsService implements OnModuleInit {
+  private log = new Logger(AirportsService.name);
+  private airports: Airport[] = [];
+  private byIdent = new Map<string, Airport>();
+  private byIata = new Map<string, Airport>();
+  private grid = new Map<string, Airport[]>();
+
+  onModuleInit() {
+    const dir = dataDir();
+    const [airportsCsv, runwaysCsv] = [join(dir, 'airports.csv'), join(dir, 'runways.csv')];
+    if (!existsSync(airportsCsv)) {
+      this.log.warn(`no ${airportsCsv}: departures and arrivals will not be identified`);
+      return;
+    }
+    this.load(readOurAirports(readFileSync(airportsCsv, 'utf8'), existsSync(runwaysCsv) ? readFileSync(runwaysCsv, 'utf8') : ''));
+    this.log.log(`loaded ${this.airports.length} airports from ${dir}`);
+  }
+
+  load(airports: Airport[]) {
+    this.airports = airports;
+    this.byIdent = new Map(airports.map((a) => [a.ident, a]));
+    this.byIata = new Map(airports.filter((a) => a.iata).map((a) => [a.iata!, a]));
+    this.grid.clear();
+    for (const a of airports) {
+      const key = this.cell(a.latitude, a.longitude);
+      const list = this.grid.get(key);
+      if (list) list.push(a);
+      else this.grid.set(key, [a]);
+    }
+  }
+
+  private cell(lat: number, lon: number) {
+    return `${Math.floor(lat / CELL_DEG)}:${Math.floor(lon / CELL_DEG)}`;
+  }
+
+  get(ident: string): Airport | null {
+    return this.byIdent.get(ident) ?? null;
+  }
+
+  /** By ident (ICAO) or IATA code. */
+  findOne(code: string): Airport {
+    const c = code.trim().toUpperCase();
+    const airport = this.byIdent.get(c) ?? this.byIata.get(c);
+    if (!airport) throw new NotFoundException('Airport not found');
+    return airport;
+  }
+
+  /** Airports within `radiusM` of a position, up to a cell's size. */
+  near = (lat: number, lon: number, radiusM: number): Airport[] => {
+    const [row, col] = [Math.floor(lat / CELL_DEG), Math.floor(lon / CELL_DEG)];
+    const out: Airport[] = [];
+    for (let r = row - 1; r <= row + 1; r++) {
+      for (let c = col - 1; c <= col + 1; c++) {
+        for (const a of this.grid.get(`${r}:${c}`) ?? []) {
+          if (greatCircleM(lat, lon, a.latitude, a.longitude) <= radiusM) out.push(a);
+        }
+      }
+    }
+    return out;
+  };
+
+  identify(ticks: readonly EndTick[]): FlightAirports {
+    return identifyAirports(ticks, this.near);
+  }
+
+  /** Exact ident or IATA code first, then names and cities containing `q`. */
+  search(q: string, limit = 20): Airport[] {
+    const term = q.trim().toLowerCase();
+    if (!term) return [];
+    const code = term.toUpperCase();
+    const exact = [this.byIdent.get(code), this.byIata.get(code)].filter((a): a is Airport => !!a);
+    const named = this.airports.filter(
+      (a) => !exact.includes(a) && (a.name.toLowerCase().includes(term) || a.municipality?.toLowerCase().includes(term)),
+    );
+    return [...new Set(exact)].concat(named).slice(0, limit);
+  }
+
+  /**
+   * Idents a catalog filter means: the airports whose ident or IATA code is
+   * exactly `q`. An unknown code is taken as an ident, as the dataset may have
+   * changed since flights were matched.
+   */
+  identsFor(q: string): string[] {
+    const code = q.trim().toUpperCase();
+    const idents = [this.byIdent.get(code), this.byIata.get(code)].filter((a): a is Airport => !!a).map((a) => a.ident);
+    return idents.length ? [...new Set(idents)] : [code];
+  }
+}
@@ -0,0 +1,17 @@
+// src/airports/dto/search-airports.dto.ts
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SearchAirportsDto {
+  // ICAO or IATA code, or part of a name or city, e.g. "EDDF", "FRA", "frankfurt"
+  @IsString()
+  @IsNotEmpty()
+  q: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
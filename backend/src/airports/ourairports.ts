@@ -0,0 +1,101 @@
+// src/airports/ourairports.ts
+// Readers for the OurAirports CSV files (https://ourairports.com/data/):
+// airports.csv and runways.csv, as published, or any subset with the same headers.
+
+export type RunwayEnd = {
+  ident: string; // e.g. "07C"
+  latitude: number;
+  longitude: number;
+};
+
+export type Runway = {
+  lengthFt: number | null;
+  widthFt: number | null;
+  surface: string | null;
+  // le ("low end") first; a runway without both thresholds located is left out
+  ends: [RunwayEnd, RunwayEnd];
+};
+
+export type Airport = {
+  ident: string; // ICAO code where there is one
+  iata: string | null;
+  name: string;
+  type: string; // large_airport, medium_airport, small_airport, ...
+  latitude: number;
+  longitude: number;
+  elevationFt: number | null;
+  country: string;
+  municipality: string | null;
+  runways: Runway[];
+};
+
+// no fixed-wing flight starts or ends at these
+const SKIPPED_TYPES = new Set(['closed', 'heliport', 'balloonport']);
+
+/** RFC 4180 rows: quoted fields may hold commas, line breaks and doubled quotes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (text[i + 1] === '"') field += text[i++];
+      else quoted = false;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      [row, field] = [[], ''];
+    } else field += c;
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((r) => r.length > 1 || r[0] !== '');
+}
+
+/** Rows as objects keyed by the header line. */
+function records(text: string): Array<Record<string, string>> {
+  const [header = [], ...rows] = parseCsv(text);
+  return rows.map((r) => Object.fromEntries(header.map((h, i) => [h, r[i] ?? ''])));
+}
+
+const num = (v: string | undefined) => (v == null || v.trim() === '' ? null : Number(v));
+const text = (v: string | undefined) => v?.trim() || null;
+
+export function readOurAirports(airportsCsv: string, runwaysCsv: string): Airport[] {
+  const airports = new Map<string, Airport>();
+  for (const r of records(airportsCsv)) {
+    const [latitude, longitude] = [num(r.latitude_deg), num(r.longitude_deg)];
+    if (SKIPPED_TYPES.has(r.type) || !r.ident || latitude == null || longitude == null) continue;
+    airports.set(r.ident, {
+      ident: r.ident,
+      iata: text(r.iata_code),
+      name: r.name,
+      type: r.type,
+      latitude,
+      longitude,
+      elevationFt: num(r.elevation_ft),
+      country: r.iso_country,
+      municipality: text(r.municipality),
+      runways: [],
+    });
+  }
+
+  for (const r of records(runwaysCsv)) {
+    const airport = airports.get(r.airport_ident);
+    const end = (p: 'le' | 'he'): RunwayEnd | null => {
+      const [latitude, longitude] = [num(r[`${p}_latitude_deg`]), num(r[`${p}_longitude_deg`])];
+      return r[`${p}_ident`] && latitude != null && longitude != null ? { ident: r[`${p}_ident`], latitude, longitude } : null;
+    };
+    const [le, he] = [end('le'), end('he')];
+    if (!airport || r.closed === '1' || !le || !he) continue;
+    airport.runways.push({ lengthFt: num(r.length_ft), widthFt: num(r.width_ft), surface: text(r.surface), ends: [le, he] });
+  }
+  return [...airports.values()];
+}
@@ -4,6 +4,14 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { PilotModule } from './pilot/pilot.module';
 import { UsersModule } from './users/users.module';
 import { AuthModule } from './auth/auth.module';
+import { ImportModule } from './import/import.module';
+import { EventsModule } from './events/events.module';
+import { OrganizationsModule } from './organizations/organizations.module';
+import { FleetModule } from './fleet/fleet.module';
+import { AuditModule } from './audit/audit.module';
+import { ShareModule } from './share/share.module';
+import { ParametersModule } from './parameters/parameters.module';
+import { AirportsModule } from './airports/airports.module';
 @Module({
   imports: [
     ConfigModule.forRoot({ isGlobal: true }), // loads .env
@@ -19,7 +27,15 @@ import { AuthModule } from './auth/auth.module';
     }),
     PilotModule,
     UsersModule,
-    AuthModule
+    AuthModule,
+    ImportModule,
+    EventsModule,
+    OrganizationsModule,
+    FleetModule,
+    AuditModule,
+    ShareModule,
+    ParametersModule,
+    AirportsModule,
   ],
 })
 export class AppModule {}
@@ -0,0 +1,36 @@
+import { auditCsv } from './audit-csv';
+import type { AuditEntry } from './audit-entry.entity';
+
+async function collect(rows: Partial<AuditEntry>[]) {
+  async function* chunks() {
+    yield await Promise.resolve(rows as AuditEntry[]);
+  }
+  let out = '';
+  for await (const s of auditCsv(chunks())) out += s;
+  return out.split('\r\n');
+}
+
+describe('auditCsv', () => {
+  it('writes a header and quotes cells that need it', async () => {
+    const [header, line] = await collect([
+      {
+        id: 1,
+        createdAt: new Date('2025-03-24T10:00:00Z'),
+        actorEmail: 'a@example.com',
+        action: 'flight.export',
+        target: '122:20250324',
+        outcome: 'success',
+        detail: { format: 'kml', note: 'say "hi"' },
+      },
+    ]);
+    expect(header).toBe('id,createdAt,actorId,actorEmail,organizationId,ip,action,targetType,target,outcome,detail');
+    expect(line).toBe(
+      '1,2025-03-24T10:00:00.000Z,,a@example.com,,,flight.export,,122:20250324,success,"{""format"":""kml"",""note"":""say \\""hi\\""""}"',
+    );
+  });
+
+  it('defuses values a spreadsheet would run as formulas', async () => {
+    const [, line] = await collect([{ id: 2, target: '=HYPERLINK("x")' }]);
+    expect(line.split(',')[8]).toBe(`"'=HYPERLINK(""x"")"`);
+  });
+});
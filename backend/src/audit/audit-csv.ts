@@ -0,0 +1,32 @@
+// src/audit/audit-csv.ts
+import type { AuditEntry } from './audit-entry.entity';
+
+const COLUMNS: (keyof AuditEntry)[] = [
+  'id',
+  'createdAt',
+  'actorId',
+  'actorEmail',
+  'organizationId',
+  'ip',
+  'action',
+  'targetType',
+  'target',
+  'outcome',
+  'detail',
+];
+
+function cell(v: unknown): string {
+  if (v == null) return '';
+  const s = v instanceof Date ? v.toISOString() : typeof v === 'string' ? v : JSON.stringify(v);
+  // quote when needed; a leading =, +, - or @ would run as a formula in a spreadsheet
+  const safe = /^[=+\-@]/.test(s) ? `'${s}` : s;
+  return /[",\r\n]/.test(safe) || safe !== s ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** RFC 4180 CSV with a header line, one chunk of entries per yielded string. */
+export async function* auditCsv(chunks: AsyncIterable<AuditEntry[]>): AsyncGenerator<string> {
+  yield `${COLUMNS.join(',')}\r\n`;
+  for await (const rows of chunks) {
+    yield rows.map((r) => `${COLUMNS.map((c) => cell(r[c])).join(',')}\r\n`).join('');
+  }
+}
@@ -0,0 +1,68 @@
+// src/audit/audit-entry.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn } from 'typeorm';
+
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'flight.view',
+  'flight.export',
+  'flight.join',
+  'player.control',
+  'party.create',
+  'party.join',
+  'import.upload',
+  'import.rollback',
+  'share.create',
+  'share.revoke',
+  'share.use',
+  'user.create',
+  'user.update',
+  'user.delete',
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditOutcome = 'success' | 'failure';
+
+// Who did what to which flight, import or user, and when. Rows are only ever inserted.
+@Entity('audit_log')
+@Index(['action', 'createdAt'])
+export class AuditEntry {
+  @PrimaryGeneratedColumn() id: number;
+
+  @Index()
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+
+  @Index()
+  @Column({ name: 'actor_id', type: 'int', nullable: true })
+  actorId: number | null;
+
+  // kept alongside the id: the user may be deleted, the entry may not
+  @Column({ name: 'actor_email', type: 'varchar', length: 191, nullable: true })
+  actorEmail: string | null;
+
+  // actor's organization (for share-link guests, the link's); org admins see the entries of their own members
+  @Index()
+  @Column({ name: 'organization_id', type: 'int', nullable: true })
+  organizationId: number | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ip: string | null;
+
+  @Column({ type: 'varchar', length: 32 })
+  action: AuditAction;
+
+  // 'flight', 'party', 'import', 'user', 'share'
+  @Column({ name: 'target_type', type: 'varchar', length: 16, nullable: true })
+  targetType: string | null;
+
+  // e.g. "122:20250324@D-AIBA", a user or batch id, an uploaded file name
+  @Index()
+  @Column({ type: 'varchar', length: 191, nullable: true })
+  target: string | null;
+
+  @Column({ type: 'varchar', length: 10, default: 'success' })
+  outcome: AuditOutcome;
+
+  @Column({ type: 'json', nullable: true })
+  detail: Record<string, unknown> | null;
+}
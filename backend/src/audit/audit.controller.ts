@@ -0,0 +1,41 @@
+// src/audit/audit.controller.ts
+import { Controller, Get, Query, Res, StreamableFile, UseGuards } from '@nestjs/common';
+import type { Response } from 'express';
+import { Readable } from 'stream';
+import { AuditService } from './audit.service';
+import { QueryAuditDto } from './dto/query-audit.dto';
+import { auditCsv } from './audit-csv';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthUser, CurrentUser } from '../auth/current-user.decorator';
+import { orgScope } from '../organizations/org-scope';
+
+// read-only on purpose: nothing in the API updates or deletes audit entries
+@Controller('audit')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class AuditController {
+  constructor(private readonly audit: AuditService) {}
+
+  @Get()
+  query(@Query() q: QueryAuditDto, @CurrentUser() user: AuthUser) {
+    return this.audit.query(q, orgScope(user));
+  }
+
+  @Get('export')
+  export(
+    @Query() q: QueryAuditDto,
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    // the whole filtered range; paging does not apply
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { page, pageSize, ...filter } = q;
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`,
+    });
+    return new StreamableFile(Readable.from(auditCsv(this.audit.stream(filter, orgScope(user)))));
+  }
+}
@@ -0,0 +1,8 @@
+// src/audit/audit.decorator.ts
+import { SetMetadata } from '@nestjs/common';
+import type { AuditAction } from './audit-entry.entity';
+
+export const AUDIT_KEY = 'audit';
+
+/** Record every call of the handler in the audit log (needs AuditInterceptor on the class). */
+export const Audit = (action: AuditAction) => SetMetadata(AUDIT_KEY, action);
@@ -0,0 +1,105 @@
+// src/audit/audit.interceptor.ts
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import type { Socket } from 'socket.io';
+import { Observable, tap } from 'rxjs';
+import { AUDIT_KEY } from './audit.decorator';
+import type { AuditAction } from './audit-entry.entity';
+import { actorOf, AuditService } from './audit.service';
+import type { AuthUser } from '../auth/current-user.decorator';
+
+type Input = Record<string, unknown>;
+// share-link guests act without a user (see ShareGrant)
+type Guest = { linkId: number; organizationId: number };
+
+const text = (v: unknown): string => (typeof v === 'string' ? v : (JSON.stringify(v) ?? ''));
+
+// what the call was about, from its query/params (HTTP) or message body (socket)
+function targetOf(input: Input): { targetType: string | null; target: string | null; rest: Input } {
+  const { flightNumber, date, registration, roomId, id, ...rest } = input;
+  if (flightNumber != null && date != null) {
+    const tail = registration ? `@${text(registration)}` : '';
+    return { targetType: 'flight', target: `${text(flightNumber).trim()}:${text(date)}${tail}`, rest };
+  }
+  if (roomId != null) return { targetType: 'party', target: text(roomId), rest };
+  if (id != null) return { targetType: null, target: text(id), rest };
+  return { targetType: null, target: null, rest };
+}
+
+export type AuditWriter = (outcome: 'success' | 'failure', extra?: Input) => void;
+
+/**
+ * Records one call of a handler marked with @Audit, for HTTP requests and
+ * socket messages alike; null for handlers that are not audited. Guards call
+ * it for the calls they refuse, since those never reach the interceptor.
+ */
+export function auditCall(reflector: Reflector, audit: AuditService, context: ExecutionContext): AuditWriter | null {
+  const action = reflector.get<AuditAction | undefined>(AUDIT_KEY, context.getHandler());
+  if (!action) return null;
+
+  let user: AuthUser | undefined;
+  let guest: Guest | undefined;
+  let ip: string | undefined;
+  let input: Input;
+  let file = (): string | undefined => undefined;
+  const detail: Input = {};
+  if (context.getType() === 'ws') {
+    const client = context.switchToWs().getClient<Socket>();
+    const data = context.switchToWs().getData<unknown>();
+    ({ user, share: guest } = client.data as { user?: AuthUser; share?: Guest });
+    ip = client.handshake.address;
+    input = data && typeof data === 'object' ? (data as Input) : {};
+    detail.event = context.switchToWs().getPattern();
+  } else {
+    const req = context.switchToHttp().getRequest<Request & { user?: AuthUser; share?: Guest }>();
+    user = req.user;
+    guest = req.share;
+    ip = req.ip;
+    input = { ...(req.query as Input), ...(req.params as Input) };
+    // multer runs in a later interceptor, so look for the upload once the handler is done
+    file = () => req.file?.originalname;
+  }
+
+  const { targetType, target, rest } = targetOf(input);
+  const actor = actorOf(user, ip);
+  if (!user && guest) {
+    actor.organizationId = guest.organizationId;
+    detail.shareLinkId = guest.linkId;
+  }
+  return (outcome, extra) => {
+    const all = { ...detail, ...rest, ...extra };
+    void audit.record({
+      action,
+      actor,
+      targetType: targetType ?? action.split('.')[0],
+      target: target ?? file() ?? null,
+      outcome,
+      detail: Object.keys(all).length ? all : null,
+    });
+  };
+}
+
+/**
+ * Writes an audit entry for handlers marked with @Audit, whether the call
+ * succeeds or fails. Put it before the response cache so cached reads are
+ * recorded too.
+ */
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly audit: AuditService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const write = auditCall(this.reflector, this.audit, context);
+    if (!write) return next.handle();
+    return next.handle().pipe(
+      tap({
+        next: () => write('success'),
+        error: (err: unknown) => write('failure', { error: err instanceof Error ? err.message : text(err) }),
+      }),
+    );
+  }
+}
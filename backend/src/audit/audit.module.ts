@@ -0,0 +1,15 @@
+// src/audit/audit.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuditEntry } from './audit-entry.entity';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditEntry])],
+  providers: [AuditService],
+  controllers: [AuditController],
+  // AuditInterceptor is resolved in the importing module and only needs AuditService
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,50 @@
+// src/audit/dto/query-audit.dto.ts
+import { IsIn, IsInt, IsISO8601, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { AUDIT_ACTIONS, AuditAction, AuditOutcome } from '../audit-entry.entity';
+
+export class QueryAuditDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  pageSize?: number = 100;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  actorId?: number;
+
+  @IsOptional()
+  @IsIn(AUDIT_ACTIONS)
+  action?: AuditAction;
+
+  @IsOptional()
+  @IsString()
+  targetType?: string;
+
+  // exact match, e.g. "122:20250324"
+  @IsOptional()
+  @IsString()
+  target?: string;
+
+  @IsOptional()
+  @IsIn(['success', 'failure'])
+  outcome?: AuditOutcome;
+
+  // inclusive bounds on the entry time, ISO 8601
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+}
@@ -0,0 +1,32 @@
+// src/auth/auth-event.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn } from 'typeorm';
+
+export type AuthEventType = 'lockout' | 'unlock';
+
+// Security-relevant login events: locks taken by the throttle, locks lifted by an admin.
+@Entity('auth_events')
+export class AuthEvent {
+  @PrimaryGeneratedColumn() id: number;
+
+  @Index()
+  @Column({ type: 'varchar', length: 20 })
+  type: AuthEventType;
+
+  // 'account' or 'ip'; which throttle key the event concerns
+  @Column({ type: 'varchar', length: 10 })
+  scope: string;
+
+  @Index()
+  @Column({ type: 'varchar', length: 191, nullable: true })
+  email: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ip: string | null;
+
+  // admin who lifted the lock
+  @Column({ name: 'actor_id', type: 'int', nullable: true })
+  actorId: number | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+}
@@ -0,0 +1,61 @@
+import { ValidationPipe } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { Test } from '@nestjs/testing';
+import * as bcrypt from 'bcrypt';
+import * as request from 'supertest';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { LoginThrottle } from './login-throttle';
+import { trustProxy } from './trust-proxy';
+
+const PASSWORD = 'correct horse';
+
+async function setup() {
+  const passwordHash = await bcrypt.hash(PASSWORD, 4);
+  const users = {
+    findByEmailWithHash: jest.fn((email: string) =>
+      Promise.resolve(email === 'b@example.com' ? { id: 8, email, role: 'pilot', tokenVersion: 0, passwordHash } : null),
+    ),
+  };
+  const tokens = { delete: jest.fn(), create: jest.fn((t: object) => t), save: jest.fn((t: object) => Promise.resolve(t)) };
+  const authEvents = { create: jest.fn((e: object) => e), save: jest.fn((e: object) => Promise.resolve(e)) };
+  const audit = { record: jest.fn(() => Promise.resolve()) };
+  const auth = new AuthService(
+    users as never,
+    new JwtService({ secret: 'test', signOptions: { expiresIn: '15m' } }),
+    tokens as never,
+    authEvents as never,
+    new LoginThrottle(),
+    audit as never,
+  );
+
+  const moduleRef = await Test.createTestingModule({
+    controllers: [AuthController],
+    providers: [{ provide: AuthService, useValue: auth }],
+  }).compile();
+  const app = moduleRef.createNestApplication<NestExpressApplication>();
+  app.set('trust proxy', trustProxy());
+  app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+  await app.init();
+  return app;
+}
+
+describe('AuthController behind the frontend proxy', () => {
+  let app: NestExpressApplication;
+  beforeEach(async () => (app = await setup()));
+  afterEach(() => app.close());
+
+  // supertest connects from loopback, as the Next.js server does
+  const login = (client: string, email: string, password: string) =>
+    request(app.getHttpServer()).post('/auth/login').set('X-Forwarded-For', client).send({ email, password });
+
+  it('throttles each client, not the proxy they share', async () => {
+    for (let i = 0; i < 11; i++) {
+      await login('203.0.113.1', `a${i}@example.com`, 'wrong password').expect(401);
+    }
+    await login('203.0.113.1', 'a@example.com', 'wrong password').expect(429);
+
+    await login('203.0.113.2', 'b@example.com', PASSWORD).expect(201);
+  });
+});
@@ -1,21 +1,29 @@
 // src/auth/auth.module.ts
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { UsersModule } from '../users/users.module';
 import { JwtStrategy } from './jwt.strategy';
+import { WsAuthService } from './ws-auth.service';
+import { RefreshToken } from './refresh-token.entity';
+import { AuthEvent } from './auth-event.entity';
+import { LoginThrottle } from './login-throttle';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
   imports: [
-    UsersModule,
+    forwardRef(() => UsersModule),
+    TypeOrmModule.forFeature([RefreshToken, AuthEvent]),
+    AuditModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET || 'dev-secret',
-      signOptions: { expiresIn: process.env.JWT_EXPIRES_IN || '7d' },
+      signOptions: { expiresIn: process.env.JWT_EXPIRES_IN || '15m' },
     }),
   ],
-  providers: [AuthService, JwtStrategy],
+  providers: [AuthService, JwtStrategy, WsAuthService, LoginThrottle],
   controllers: [AuthController],
-  exports: [AuthService],
+  exports: [AuthService, WsAuthService],
 })
 export class AuthModule {}
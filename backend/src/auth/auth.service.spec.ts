@@ -0,0 +1,127 @@
+import { HttpException, HttpStatus, UnauthorizedException } from '@nestjs/common';
+import * as bcrypt from 'bcrypt';
+import { AuthService } from './auth.service';
+import { LoginThrottle } from './login-throttle';
+
+const EMAIL = 'pilot@example.com';
+const PASSWORD = 'correct horse';
+
+async function setup() {
+  const passwordHash = await bcrypt.hash(PASSWORD, 4);
+  const users = {
+    findByEmailWithHash: jest.fn((email: string) =>
+      Promise.resolve(email === EMAIL ? { id: 7, email, role: 'pilot', tokenVersion: 0, passwordHash } : null),
+    ),
+  };
+  const authEvents = { create: jest.fn((e: object) => e), save: jest.fn((e: object) => Promise.resolve(e)) };
+  const throttle = new LoginThrottle();
+  const auth = new AuthService(users as never, {} as never, {} as never, authEvents as never, throttle, {} as never);
+  return { auth, authEvents };
+}
+
+const status = (p: Promise<unknown>) =>
+  p.then(
+    () => 200,
+    (e: unknown) => (e instanceof HttpException ? e.getStatus() : 500),
+  );
+
+describe('AuthService.validateUser throttling', () => {
+  beforeEach(() => jest.useFakeTimers({ now: new Date('2025-03-24T10:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] }));
+  afterEach(() => jest.useRealTimers());
+
+  it('backs off exponentially after repeated failures', async () => {
+    const { auth } = await setup();
+    await expect(auth.validateUser(EMAIL, 'nope', '10.0.0.1')).rejects.toBeInstanceOf(UnauthorizedException);
+    await expect(auth.validateUser(EMAIL, 'nope', '10.0.0.1')).rejects.toBeInstanceOf(UnauthorizedException);
+
+    // second failure: 1s wait, even with the right password
+    expect(await status(auth.validateUser(EMAIL, PASSWORD, '10.0.0.1'))).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    jest.advanceTimersByTime(1000);
+    await expect(auth.validateUser(EMAIL, 'nope', '10.0.0.1')).rejects.toBeInstanceOf(UnauthorizedException);
+
+    // third failure: 2s
+    jest.advanceTimersByTime(1000);
+    expect(await status(auth.validateUser(EMAIL, PASSWORD, '10.0.0.1'))).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    jest.advanceTimersByTime(1000);
+    await expect(auth.validateUser(EMAIL, PASSWORD, '10.0.0.1')).resolves.toMatchObject({ id: 7 });
+  });
+
+  it('locks the account after five failures and records the lockout', async () => {
+    const { auth, authEvents } = await setup();
+    for (let i = 0; i < 5; i++) {
+      await expect(auth.validateUser(EMAIL, 'nope', '10.0.0.1')).rejects.toBeInstanceOf(UnauthorizedException);
+      jest.advanceTimersByTime(60_000);
+    }
+    expect(authEvents.save).toHaveBeenCalledWith(expect.objectContaining({ type: 'lockout', scope: 'account', email: EMAIL }));
+
+    // another address does not help, and the right password is not even checked
+    const err = await auth.validateUser(EMAIL, PASSWORD, '10.0.0.2').catch((e: HttpException) => e);
+    expect((err as HttpException).getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect((err as HttpException).getResponse() as { retryAfterSec: number }).toHaveProperty('retryAfterSec');
+
+    jest.advanceTimersByTime(15 * 60_000);
+    await expect(auth.validateUser(EMAIL, PASSWORD, '10.0.0.2')).resolves.toMatchObject({ id: 7 });
+  });
+
+  it('lets an admin lift the lock early and records the unlock', async () => {
+    const { auth, authEvents } = await setup();
+    for (let i = 0; i < 5; i++) {
+      await auth.validateUser(EMAIL, 'nope', '10.0.0.1').catch(() => undefined);
+      jest.advanceTimersByTime(60_000);
+    }
+    await expect(auth.unlock({ email: EMAIL }, 1)).resolves.toEqual({ unlocked: true, wasLocked: true });
+    expect(authEvents.save).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'unlock', actorId: 1 }));
+    await expect(auth.validateUser(EMAIL, PASSWORD, '10.0.0.1')).resolves.toMatchObject({ id: 7 });
+  });
+
+  it('throttles an address guessing across many accounts', async () => {
+    const { auth } = await setup();
+    for (let i = 0; i < 50; i++) {
+      await expect(auth.validateUser(`user${i}@example.com`, 'nope', '10.0.0.9')).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      jest.advanceTimersByTime(60_000);
+    }
+    const err = (await auth.validateUser(EMAIL, PASSWORD, '10.0.0.9').catch((e: HttpException) => e)) as HttpException;
+    expect((err.getResponse() as { message: string }).message).toContain('this address is locked');
+    expect(await status(auth.validateUser(EMAIL, PASSWORD, '10.0.0.10'))).toBe(200);
+  });
+
+  it('counts concurrent guesses before any password check finishes', async () => {
+    const { auth } = await setup();
+    const guesses = await Promise.all(Array.from({ length: 10 }, () => status(auth.validateUser(EMAIL, 'nope', '10.0.0.1'))));
+    // the first is free and the second has no wait yet; the rest back off
+    const [first, second, ...rest] = guesses;
+    expect([first, second]).toEqual([HttpStatus.UNAUTHORIZED, HttpStatus.UNAUTHORIZED]);
+    expect(new Set(rest)).toEqual(new Set([HttpStatus.TOO_MANY_REQUESTS]));
+  });
+
+  it('keeps counting the address after a correct login', async () => {
+    const { auth } = await setup();
+    for (let i = 0; i < 10; i++) {
+      await auth.validateUser(`user${i}@example.com`, 'nope', '10.0.0.9').catch(() => undefined);
+      jest.advanceTimersByTime(60_000);
+    }
+    // the guesser's own account: a success must not reset its guesses at the others
+    await expect(auth.validateUser(EMAIL, PASSWORD, '10.0.0.9')).resolves.toMatchObject({ id: 7 });
+    expect(await status(auth.validateUser('other1@example.com', 'nope', '10.0.0.9'))).toBe(HttpStatus.UNAUTHORIZED);
+    expect(await status(auth.validateUser('other2@example.com', 'nope', '10.0.0.9'))).toBe(HttpStatus.TOO_MANY_REQUESTS);
+  });
+
+  it('does not count correct logins against the address', async () => {
+    const { auth } = await setup();
+    for (let i = 0; i < 60; i++) {
+      expect(await status(auth.validateUser(EMAIL, PASSWORD, '10.0.0.9'))).toBe(200);
+    }
+  });
+
+  it('still throttles when recording the event fails', async () => {
+    const { auth, authEvents } = await setup();
+    authEvents.save.mockRejectedValue(new Error('db down'));
+    for (let i = 0; i < 5; i++) {
+      await expect(auth.validateUser(EMAIL, 'nope', '10.0.0.1')).rejects.toBeInstanceOf(UnauthorizedException);
+      jest.advanceTimersByTime(60_000);
+    }
+    expect(await status(auth.validateUser(EMAIL, PASSWORD, '10.0.0.1'))).toBe(HttpStatus.TOO_MANY_REQUESTS);
+  });
+});
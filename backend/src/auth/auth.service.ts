@@ -1,36 +1,202 @@
 // src/auth/auth.service.ts
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { HttpException, HttpStatus, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import { UsersService } from '../users/users.service';
+import { User } from '../users/user.entity';
 import { LoginDto } from './dto/login.dto';
+import { RefreshToken } from './refresh-token.entity';
+import { AuthUser } from './current-user.decorator';
+import { LoginThrottle, ThrottleScope } from './login-throttle';
+import { AuthEvent, AuthEventType } from './auth-event.entity';
+import { AuditService } from '../audit/audit.service';
+
+// what an access token carries; ver is User.tokenVersion at issue time
+export type AccessPayload = { sub: number; email: string; role: string; ver?: number };
+
+const DEFAULT_REFRESH_TTL_DAYS = 30;
+
+function refreshTtlMs(): number {
+  const days = Number(process.env.REFRESH_TTL_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_REFRESH_TTL_DAYS) * 86_400_000;
+}
+
+const sha256 = (s: string) => createHash('sha256').update(s).digest('hex');
 
 @Injectable()
 export class AuthService {
+  private log = new Logger(AuthService.name);
+
   constructor(
     private readonly users: UsersService,
     private readonly jwt: JwtService,
+    @InjectRepository(RefreshToken) private readonly tokens: Repository<RefreshToken>,
+    @InjectRepository(AuthEvent) private readonly authEvents: Repository<AuthEvent>,
+    private readonly throttle: LoginThrottle,
+    private readonly audit: AuditService,
   ) {}
 
-  async validateUser(email: string, password: string) {
-    const user = await this.users.findByEmailWithHash(email);
-    if (!user) throw new UnauthorizedException('Invalid credentials');
+  /**
+   * Password check behind the login throttle: backing off or locked out
+   * accounts and IPs get 429 before the password is even looked at.
+   */
+  async validateUser(email: string, password: string, ip = 'unknown') {
+    const blocked = this.throttle.check(email, ip);
+    if (blocked) {
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: blocked.locked
+            ? `Too many failed logins; ${blocked.scope === 'ip' ? 'this address' : 'this account'} is locked`
+            : 'Too many failed logins; slow down',
+          retryAfterSec: blocked.retryAfterSec,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
 
-    const ok = await bcrypt.compare(password, user.passwordHash);
-    if (!ok) throw new UnauthorizedException('Invalid credentials');
+    // counted as failed until the password proves right: requests arriving
+    // while this one awaits bcrypt are throttled as if it had failed.
+    // Unknown emails count too, so probing for accounts is throttled the same way
+    const locked = this.throttle.fail(email, ip);
+    const user = await this.users.findByEmailWithHash(email);
+    const ok = !!user && (await bcrypt.compare(password, user.passwordHash));
+    if (!user || !ok) {
+      for (const scope of locked) await this.record('lockout', scope, email, ip);
+      throw new UnauthorizedException('Invalid credentials');
+    }
+    this.throttle.succeed(email, ip);
 
     // strip hash before returning
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { passwordHash, ...safe } = user as any;
-    return safe;
+    const { passwordHash, ...safe } = user;
+    return safe as Omit<User, 'passwordHash'>;
+  }
+
+  async login(dto: LoginDto, ip?: string) {
+    let user: Omit<User, 'passwordHash'>;
+    try {
+      user = await this.validateUser(dto.email, dto.password, ip);
+    } catch (err) {
+      // 401 wrong password, 429 throttled
+      await this.audit.record({
+        action: 'auth.login',
+        actor: { email: dto.email, ip },
+        outcome: 'failure',
+        detail: { status: err instanceof HttpException ? err.getStatus() : 500 },
+      });
+      throw err;
+    }
+    await this.audit.record({
+      action: 'auth.login',
+      actor: { id: user.id, email: user.email, organizationId: user.organizationId, ip },
+    });
+    await this.tokens.delete({ userId: user.id, expiresAt: LessThan(new Date()) });
+    return this.issue(user, randomUUID());
+  }
+
+  /**
+   * Trade a refresh token for a new pair. The presented token is spent; if it
+   * was already spent someone else holds a copy, so its whole family goes.
+   */
+  async refresh(token: string) {
+    const row = await this.tokens.findOne({ where: { tokenHash: sha256(token) } });
+    if (!row) throw new UnauthorizedException('Invalid refresh token');
+
+    if (row.revokedAt) {
+      await this.revokeFamily(row.family);
+      this.log.warn(`refresh token reuse for user ${row.userId}; family revoked`);
+      throw new UnauthorizedException('Refresh token already used');
+    }
+    if (row.expiresAt.getTime() <= Date.now()) throw new UnauthorizedException('Refresh token expired');
+
+    const user = await this.users.findAuthState(row.userId);
+    if (!user || user.tokenVersion !== row.tokenVersion) {
+      await this.revokeFamily(row.family);
+      throw new UnauthorizedException('Session is no longer valid');
+    }
+
+    // conditional, so two concurrent refreshes with the same token cannot both win
+    const { affected } = await this.tokens.update({ id: row.id, revokedAt: IsNull() }, { revokedAt: new Date() });
+    if (!affected) {
+      await this.revokeFamily(row.family);
+      throw new UnauthorizedException('Refresh token already used');
+    }
+    return this.issue(user, row.family);
+  }
+
+  /** End the session the refresh token belongs to. Unknown tokens are ignored. */
+  async logout(token: string): Promise<{ ok: true }> {
+    const row = await this.tokens.findOne({ where: { tokenHash: sha256(token) } });
+    if (row) await this.revokeFamily(row.family);
+    return { ok: true };
   }
 
-  async login(dto: LoginDto) {
-    const user = await this.validateUser(dto.email, dto.password);
+  /**
+   * The user behind a verified access token as the database sees it now, or
+   * null when the account is gone or its tokens were invalidated.
+   */
+  async userFromPayload(payload: AccessPayload): Promise<AuthUser | null> {
+    const user = await this.users.findAuthState(payload.sub);
+    if (!user || user.tokenVersion !== (payload.ver ?? 0)) return null;
+    return {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      organizationId: user.organizationId,
+      unitProfile: user.unitProfile,
+    };
+  }
+
+  /** Admin override of an account lockout. */
+  async unlock(user: { email: string }, actorId: number) {
+    const wasLocked = this.throttle.unlock(user.email);
+    await this.record('unlock', 'account', user.email, null, actorId);
+    return { unlocked: true, wasLocked };
+  }
 
-    const payload = { sub: user.id, email: user.email, role: user.role };
+  // a failure to record must not decide a login, so it is logged and swallowed
+  private async record(
+    type: AuthEventType,
+    scope: ThrottleScope,
+    email: string | null,
+    ip: string | null,
+    actorId: number | null = null,
+  ) {
+    this.log.warn(`${type} ${scope} email=${email ?? '-'} ip=${ip ?? '-'}${actorId ? ` by ${actorId}` : ''}`);
+    try {
+      await this.authEvents.save(this.authEvents.create({ type, scope, email, ip, actorId }));
+    } catch (err) {
+      this.log.error(`could not record ${type} event: ${(err as Error).message}`);
+    }
+  }
+
+  private async issue(user: Omit<User, 'passwordHash'>, family: string) {
+    const payload: AccessPayload = { sub: user.id, email: user.email, role: user.role, ver: user.tokenVersion };
     const access_token = await this.jwt.signAsync(payload);
+    const { exp, iat } = this.jwt.decode<{ exp: number; iat: number }>(access_token);
+
+    const refresh_token = randomBytes(32).toString('base64url');
+    await this.tokens.save(
+      this.tokens.create({
+        userId: user.id,
+        tokenHash: sha256(refresh_token),
+        family,
+        tokenVersion: user.tokenVersion,
+        expiresAt: new Date(Date.now() + refreshTtlMs()),
+        revokedAt: null,
+      }),
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { tokenVersion, ...safe } = user;
+    return { access_token, refresh_token, expires_in: exp - iat, user: safe };
+  }
 
-    return { access_token, user };
+  private async revokeFamily(family: string) {
+    await this.tokens.update({ family, revokedAt: IsNull() }, { revokedAt: new Date() });
   }
 }
@@ -0,0 +1,17 @@
+// src/auth/current-user.decorator.ts
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { UnitProfile } from '../parameters/units';
+
+// shape returned by JwtStrategy.validate
+export type AuthUser = {
+  id: number;
+  email: string;
+  role: string;
+  organizationId: number | null;
+  unitProfile?: UnitProfile | null;
+};
+
+export const CurrentUser = createParamDecorator(
+  (_: unknown, ctx: ExecutionContext): AuthUser | undefined =>
+    ctx.switchToHttp().getRequest<{ user?: AuthUser }>().user,
+);
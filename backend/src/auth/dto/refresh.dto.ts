@@ -0,0 +1,8 @@
+// src/auth/dto/refresh.dto.ts
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshDto {
+  @IsString()
+  @IsNotEmpty()
+  refreshToken: string;
+}
@@ -1,20 +1,29 @@
 // src/auth/jwt.strategy.ts
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import type { Request } from 'express';
+import { tokenFromCookie } from './token-cookie';
+import { AccessPayload, AuthService } from './auth.service';
+
+// the cookie lets plain links (exports) authenticate without a header
+const fromCookie = (req: Request) => tokenFromCookie(req.headers.cookie);
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
-  constructor() {
+  constructor(private readonly auth: AuthService) {
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([ExtractJwt.fromAuthHeaderAsBearerToken(), fromCookie]),
       secretOrKey: process.env.JWT_SECRET || 'dev-secret',
       ignoreExpiration: false,
     });
   }
 
-  async validate(payload: { sub: number; email: string; role: string }) {
-    // whatever you return here becomes request.user
-    return { id: payload.sub, email: payload.email, role: payload.role };
+  async validate(payload: AccessPayload) {
+    // whatever you return here becomes request.user; role comes from the DB,
+    // so a demotion or deletion takes effect on the next request
+    const user = await this.auth.userFromPayload(payload);
+    if (!user) throw new UnauthorizedException('Token has been revoked');
+    return user;
   }
 }
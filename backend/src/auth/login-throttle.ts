@@ -0,0 +1,139 @@
+// src/auth/login-throttle.ts
+import { Injectable } from '@nestjs/common';
+
+const num = (v: string | undefined, fallback: number) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+};
+
+export type ThrottleScope = 'account' | 'ip';
+
+// failures before backoff starts, then 1s, 2s, 4s ... between attempts
+const FREE_FAILURES: Record<ThrottleScope, number> = { account: 1, ip: 10 };
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60_000;
+// bound on tracked keys; when full of live entries, unknown keys are refused
+const MAX_TRACKED = 50_000;
+
+type Entry = {
+  failures: number;
+  lastFailure: number;
+  lockedUntil: number;
+};
+
+export type Blocked = {
+  scope: ThrottleScope;
+  locked: boolean; // false: only backing off
+  retryAfterSec: number;
+};
+
+/**
+ * In-process failed-login tracking per account and per IP. Nothing here
+ * needs an external store, and when the table is full of live entries new
+ * keys are refused rather than let through untracked.
+ */
+@Injectable()
+export class LoginThrottle {
+  private entries = new Map<string, Entry>();
+  // read at construction, once .env is loaded; the IP limit is higher since offices share an address
+  private readonly accountMax = num(process.env.LOGIN_MAX_FAILURES, 5);
+  private readonly ipMax = num(process.env.LOGIN_IP_MAX_FAILURES, 50);
+  private readonly lockoutMs = num(process.env.LOGIN_LOCKOUT_MIN, 15) * 60_000;
+
+  /** Why a login for this account/IP may not be tried now, or null. */
+  check(email: string, ip: string): Blocked | null {
+    const now = Date.now();
+    for (const [scope, key] of this.keys(email, ip)) {
+      const e = this.live(key, now);
+      if (!e) {
+        if (this.entries.size >= MAX_TRACKED && !this.prune(now)) {
+          return { scope, locked: false, retryAfterSec: Math.ceil(BACKOFF_MAX_MS / 1000) };
+        }
+        continue;
+      }
+      if (e.lockedUntil > now) {
+        return { scope, locked: true, retryAfterSec: Math.ceil((e.lockedUntil - now) / 1000) };
+      }
+      const wait = e.lastFailure + this.backoff(scope, e.failures) - now;
+      if (wait > 0) return { scope, locked: false, retryAfterSec: Math.ceil(wait / 1000) };
+    }
+    return null;
+  }
+
+  /**
+   * Count an attempt as failed; returns the scopes it locked. Logins count it
+   * before the password check, so concurrent guesses already see it.
+   */
+  fail(email: string, ip: string): ThrottleScope[] {
+    const now = Date.now();
+    const locked: ThrottleScope[] = [];
+    for (const [scope, key] of this.keys(email, ip)) {
+      const e = this.live(key, now) ?? { failures: 0, lastFailure: now, lockedUntil: 0 };
+      e.failures++;
+      e.lastFailure = now;
+      const max = scope === 'account' ? this.accountMax : this.ipMax;
+      if (e.failures >= max && e.lockedUntil <= now) {
+        e.lockedUntil = now + this.lockoutMs;
+        locked.push(scope);
+      }
+      this.entries.set(key, e);
+    }
+    return locked;
+  }
+
+  /**
+   * A correct password clears the account's record and takes the attempt's
+   * own count back from the address. The rest of the address's record expires
+   * on its own: logging in to an account the guesser owns must not reset the
+   * count of guesses against the others.
+   */
+  succeed(email: string, ip: string) {
+    this.entries.delete(this.accountKey(email));
+    const e = this.entries.get(this.ipKey(ip));
+    if (e) e.failures = Math.max(0, e.failures - 1);
+  }
+
+  /** Lift a lock early; true if the account was locked. */
+  unlock(email: string): boolean {
+    const key = this.accountKey(email);
+    const wasLocked = (this.entries.get(key)?.lockedUntil ?? 0) > Date.now();
+    this.entries.delete(key);
+    return wasLocked;
+  }
+
+  private keys(email: string, ip: string): [ThrottleScope, string][] {
+    return [
+      ['account', this.accountKey(email)],
+      ['ip', this.ipKey(ip)],
+    ];
+  }
+
+  private accountKey(email: string) {
+    return `acct:${email.trim().toLowerCase()}`;
+  }
+
+  private ipKey(ip: string) {
+    return `ip:${ip}`;
+  }
+
+  private backoff(scope: ThrottleScope, failures: number) {
+    const over = failures - FREE_FAILURES[scope];
+    return over <= 0 ? 0 : Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (over - 1));
+  }
+
+  // entries are forgotten once both the lock and the last failure are a lockout period old
+  private live(key: string, now: number): Entry | undefined {
+    const e = this.entries.get(key);
+    if (e && e.lockedUntil <= now && now - e.lastFailure > this.lockoutMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return e;
+  }
+
+  /** Drop stale entries; false if the table is still full. */
+  private prune(now: number): boolean {
+    for (const key of [...this.entries.keys()]) this.live(key, now);
+    return this.entries.size < MAX_TRACKED;
+  }
+}
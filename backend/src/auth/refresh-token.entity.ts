@@ -0,0 +1,40 @@
+// src/auth/refresh-token.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { User } from '../users/user.entity';
+
+// One row per issued refresh token. Rotation revokes the row and issues a
+// successor in the same family; presenting a revoked token revokes the family.
+@Entity('refresh_tokens')
+export class RefreshToken {
+  @PrimaryGeneratedColumn() id: number;
+
+  @Index()
+  @Column({ name: 'user_id', type: 'int' })
+  userId: number;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user?: User;
+
+  // sha256 of the token, hex; the token itself is only ever sent to the client
+  @Index({ unique: true })
+  @Column({ name: 'token_hash', type: 'char', length: 64 })
+  tokenHash: string;
+
+  @Index()
+  @Column({ type: 'char', length: 36 })
+  family: string;
+
+  // User.tokenVersion at issue time; a bump invalidates the token
+  @Column({ name: 'token_version', type: 'int' })
+  tokenVersion: number;
+
+  @Column({ name: 'expires_at', type: 'datetime', precision: 6 })
+  expiresAt: Date;
+
+  @Column({ name: 'revoked_at', type: 'datetime', precision: 6, nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+}
@@ -0,0 +1,8 @@
+// src/auth/roles.decorator.ts
+import { SetMetadata } from '@nestjs/common';
+import type { Role } from '../users/user.entity';
+
+export const ROLES_KEY = 'roles';
+
+/** Roles allowed on a handler or controller; checked by RolesGuard. */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,42 @@
+// src/auth/roles.guard.ts
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable, Optional } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import type { Socket } from 'socket.io';
+import { ROLES_KEY } from './roles.decorator';
+import type { AuthUser } from './current-user.decorator';
+import type { Role } from '../users/user.entity';
+import { CROSS_ORG_ROLE } from '../organizations/org-scope';
+import { AuditService } from '../audit/audit.service';
+import { auditCall } from '../audit/audit.interceptor';
+
+// HTTP: use after JwtAuthGuard, which puts the token payload on request.user.
+// WebSocket: the gateway stores the handshake's user on socket.data.user.
+// Refusals of @Audit handlers are audited here: they never reach AuditInterceptor.
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    // absent in modules without AuditModule, which have no audited handlers
+    @Optional() private readonly audit?: AuditService,
+  ) {}
+
+  canActivate(ctx: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[] | undefined>(ROLES_KEY, [
+      ctx.getHandler(),
+      ctx.getClass(),
+    ]);
+    if (!roles?.length) return true;
+
+    const ws = ctx.getType() === 'ws';
+    const user = ws
+      ? (ctx.switchToWs().getClient<Socket>().data as { user?: AuthUser }).user
+      : ctx.switchToHttp().getRequest<{ user?: AuthUser }>().user;
+    // cross-org staff may do anything an org admin may
+    if (user && (user.role === CROSS_ORG_ROLE || roles.includes(user.role as Role))) return true;
+
+    const message = `Requires role: ${roles.join(' or ')}`;
+    if (this.audit) auditCall(this.reflector, this.audit, ctx)?.('failure', { error: message });
+    throw ws ? new WsException(message) : new ForbiddenException(message);
+  }
+}
@@ -0,0 +1,13 @@
+// src/auth/token-cookie.ts
+
+// httpOnly cookie set by the frontend's /api/auth/login route
+export const TOKEN_COOKIE = 'access_token';
+
+/** The JWT from a raw Cookie header, if the token cookie is present. */
+export function tokenFromCookie(header: string | undefined): string | null {
+  for (const part of (header ?? '').split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === TOKEN_COOKIE && rest.length) return decodeURIComponent(rest.join('='));
+  }
+  return null;
+}
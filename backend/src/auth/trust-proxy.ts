@@ -0,0 +1,14 @@
+// src/auth/trust-proxy.ts
+
+/**
+ * Express "trust proxy" setting: which hops may name the client in
+ * X-Forwarded-For. Browser logins arrive through the Next.js server, so
+ * without it every login would share that server's address in the per-IP
+ * throttle. TRUST_PROXY takes addresses, CIDRs or loopback/linklocal/uniquelocal
+ * (comma separated), or a hop count; by default only a proxy on this host is trusted.
+ */
+export function trustProxy(): string | number | false {
+  const v = (process.env.TRUST_PROXY ?? 'loopback').trim();
+  if (!v || v === 'false') return false;
+  return /^\d+$/.test(v) ? Number(v) : v;
+}
@@ -0,0 +1,42 @@
+// src/auth/ws-auth.service.ts
+import { Injectable } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import type { Socket } from 'socket.io';
+import { AuthUser } from './current-user.decorator';
+import { tokenFromCookie } from './token-cookie';
+import { AccessPayload, AuthService } from './auth.service';
+
+/**
+ * JWT check for socket handshakes, the counterpart of JwtStrategy for HTTP.
+ * The token may come as `auth.token` in the socket.io handshake, a Bearer
+ * Authorization header, or the access_token cookie.
+ */
+@Injectable()
+export class WsAuthService {
+  constructor(
+    private readonly jwt: JwtService,
+    private readonly auth: AuthService,
+  ) {}
+
+  /** The handshake's user, or null when the token is missing, invalid, expired or revoked. */
+  async authenticate(client: Socket): Promise<AuthUser | null> {
+    const token = this.tokenOf(client);
+    if (!token) return null;
+    try {
+      return await this.auth.userFromPayload(await this.jwt.verifyAsync<AccessPayload>(token));
+    } catch {
+      return null;
+    }
+  }
+
+  private tokenOf(client: Socket): string | null {
+    const { auth, headers } = client.handshake;
+    const fromAuth = (auth as { token?: unknown } | undefined)?.token;
+    if (typeof fromAuth === 'string' && fromAuth) return fromAuth.replace(/^Bearer\s+/i, '');
+
+    const header = headers.authorization;
+    if (header?.startsWith('Bearer ')) return header.slice(7).trim();
+
+    return tokenFromCookie(headers.cookie);
+  }
+}
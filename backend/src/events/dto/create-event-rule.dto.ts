@@ -0,0 +1,60 @@
+// src/events/dto/create-event-rule.dto.ts
+import {
+  ArrayUnique, IsArray, IsBoolean, IsIn, IsInt, IsNotEmpty, IsNumber,
+  IsOptional, IsString, Matches, MaxLength, Min, ValidateIf
+} from 'class-validator';
+import { FLIGHT_PHASES, FlightPhase } from '../../pilot/flight-phase.service';
+import {
+  RULE_COMPARISONS, RULE_PARAMETERS, SEVERITIES,
+  RuleComparison, RuleParameter, Severity
+} from '../event-rule.entity';
+
+export class CreateEventRuleDto {
+  @IsString()
+  @Matches(/^[A-Z0-9_]{2,64}$/, { message: 'code must be UPPER_SNAKE_CASE' })
+  code: string;
+
+  @IsString() @IsNotEmpty() @MaxLength(120)
+  name: string;
+
+  @IsOptional() @IsString() @MaxLength(500)
+  description?: string;
+
+  @IsIn(RULE_PARAMETERS)
+  parameter: RuleParameter;
+
+  @IsIn(RULE_COMPARISONS)
+  comparison: RuleComparison;
+
+  @IsNumber()
+  threshold: number;
+
+  @IsOptional() @IsNumber() @Min(0)
+  minDurationSec?: number;
+
+  @IsOptional() @IsArray() @ArrayUnique() @IsIn(FLIGHT_PHASES, { each: true })
+  phases?: FlightPhase[];
+
+  @IsOptional() @IsInt()
+  minAltitude?: number;
+
+  @IsOptional() @IsInt()
+  maxAltitude?: number;
+
+  @IsOptional() @IsIn(RULE_PARAMETERS)
+  conditionParameter?: RuleParameter;
+
+  @ValidateIf((o: CreateEventRuleDto) => o.conditionParameter != null)
+  @IsIn(RULE_COMPARISONS)
+  conditionComparison?: RuleComparison;
+
+  @ValidateIf((o: CreateEventRuleDto) => o.conditionParameter != null)
+  @IsNumber()
+  conditionThreshold?: number;
+
+  @IsOptional() @IsIn(SEVERITIES)
+  severity?: Severity;
+
+  @IsOptional() @IsBoolean()
+  enabled?: boolean;
+}
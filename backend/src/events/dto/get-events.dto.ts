@@ -0,0 +1,10 @@
+// src/events/dto/get-events.dto.ts
+import { IsIn, IsOptional } from 'class-validator';
+import { GetPathDto } from '../../pilot/dto/get-path.dto';
+import { SEVERITIES, Severity } from '../event-rule.entity';
+
+export class GetEventsDto extends GetPathDto {
+  @IsOptional()
+  @IsIn(SEVERITIES)
+  severity?: Severity;
+}
@@ -0,0 +1,55 @@
+// src/events/dto/update-event-rule.dto.ts
+import {
+  ArrayUnique, IsArray, IsBoolean, IsIn, IsInt, IsNotEmpty, IsNumber,
+  IsOptional, IsString, MaxLength, Min
+} from 'class-validator';
+import { FLIGHT_PHASES, FlightPhase } from '../../pilot/flight-phase.service';
+import {
+  RULE_COMPARISONS, RULE_PARAMETERS, SEVERITIES,
+  RuleComparison, RuleParameter, Severity
+} from '../event-rule.entity';
+
+// code is the rule's identity and cannot be changed
+export class UpdateEventRuleDto {
+  @IsOptional() @IsString() @IsNotEmpty() @MaxLength(120)
+  name?: string;
+
+  @IsOptional() @IsString() @MaxLength(500)
+  description?: string | null;
+
+  @IsOptional() @IsIn(RULE_PARAMETERS)
+  parameter?: RuleParameter;
+
+  @IsOptional() @IsIn(RULE_COMPARISONS)
+  comparison?: RuleComparison;
+
+  @IsOptional() @IsNumber()
+  threshold?: number;
+
+  @IsOptional() @IsNumber() @Min(0)
+  minDurationSec?: number;
+
+  @IsOptional() @IsArray() @ArrayUnique() @IsIn(FLIGHT_PHASES, { each: true })
+  phases?: FlightPhase[] | null;
+
+  @IsOptional() @IsInt()
+  minAltitude?: number | null;
+
+  @IsOptional() @IsInt()
+  maxAltitude?: number | null;
+
+  @IsOptional() @IsIn(RULE_PARAMETERS)
+  conditionParameter?: RuleParameter | null;
+
+  @IsOptional() @IsIn(RULE_COMPARISONS)
+  conditionComparison?: RuleComparison | null;
+
+  @IsOptional() @IsNumber()
+  conditionThreshold?: number | null;
+
+  @IsOptional() @IsIn(SEVERITIES)
+  severity?: Severity;
+
+  @IsOptional() @IsBoolean()
+  enabled?: boolean;
+}
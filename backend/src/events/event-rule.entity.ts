@@ -0,0 +1,91 @@
+// src/events/event-rule.entity.ts
+import {
+  Entity, PrimaryGeneratedColumn, Column, Index,
+  CreateDateColumn, UpdateDateColumn
+} from 'typeorm';
+import type { FlightPhase } from '../pilot/flight-phase.service';
+
+export const RULE_COMPARISONS = ['gt', 'gte', 'lt', 'lte', 'absGt', 'absGte', 'eq', 'changesTo'] as const;
+export type RuleComparison = (typeof RULE_COMPARISONS)[number];
+
+// numeric FdrTick fields a rule may watch
+export const RULE_PARAMETERS = [
+  'pressureAltitude',
+  'pitchAngle',
+  'rollAngle',
+  'magHeading',
+  'computedAirspeed',
+  'verticalSpeed',
+  'flapPosition',
+  'gearSelectionUp',
+  'ap1Engaged',
+  'ap2Engaged',
+  'airGround',
+] as const;
+export type RuleParameter = (typeof RULE_PARAMETERS)[number];
+
+export const SEVERITIES = ['low', 'medium', 'high'] as const;
+export type Severity = (typeof SEVERITIES)[number];
+
+@Entity('event_rules')
+export class EventRule {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  code: string; // e.g. "BANK_35"
+
+  @Column({ type: 'varchar', length: 120 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  description: string | null;
+
+  // FdrTick field the rule watches, e.g. "rollAngle"
+  @Column({ type: 'varchar', length: 32 })
+  parameter: RuleParameter;
+
+  @Column({ type: 'varchar', length: 16 })
+  comparison: RuleComparison;
+
+  @Column({ type: 'double' })
+  threshold: number;
+
+  // the condition must hold this long before it counts as an event
+  @Column({ name: 'min_duration_sec', type: 'double', default: 0 })
+  minDurationSec: number;
+
+  // only evaluate in these phases (null = any phase)
+  @Column({ type: 'simple-array', nullable: true })
+  phases: FlightPhase[] | null;
+
+  // pressure altitude window (ft), either end optional
+  @Column({ name: 'min_altitude', type: 'int', nullable: true })
+  minAltitude: number | null;
+
+  @Column({ name: 'max_altitude', type: 'int', nullable: true })
+  maxAltitude: number | null;
+
+  // optional second parameter that must also hold, e.g. flapPosition >= 15
+  @Column({ name: 'condition_parameter', type: 'varchar', length: 32, nullable: true })
+  conditionParameter: RuleParameter | null;
+
+  @Column({ name: 'condition_comparison', type: 'varchar', length: 16, nullable: true })
+  conditionComparison: RuleComparison | null;
+
+  @Column({ name: 'condition_threshold', type: 'double', nullable: true })
+  conditionThreshold: number | null;
+
+  @Column({ type: 'varchar', length: 10, default: 'medium' })
+  severity: Severity;
+
+  @Column({ type: 'boolean', default: true })
+  enabled: boolean;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'datetime', precision: 6 })
+  updatedAt: Date;
+}
@@ -0,0 +1,70 @@
+// src/events/events.controller.ts
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { EventsService } from './events.service';
+import { GetEventsDto } from './dto/get-events.dto';
+import { GetPathDto } from '../pilot/dto/get-path.dto';
+import { CreateEventRuleDto } from './dto/create-event-rule.dto';
+import { UpdateEventRuleDto } from './dto/update-event-rule.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthUser, CurrentUser } from '../auth/current-user.decorator';
+import { orgScope } from '../organizations/org-scope';
+
+@Controller()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'pilot', 'viewer')
+export class EventsController {
+  constructor(private readonly events: EventsService) {}
+
+  @Get('pilot/events')
+  async list(@Query() q: GetEventsDto, @CurrentUser() user: AuthUser) {
+    const events = await this.events.list(
+      { flightNumber: q.flightNumber.trim(), date: q.date, registration: q.registration, orgId: orgScope(user) },
+      q.severity,
+    );
+    return { events };
+  }
+
+  @Roles('admin', 'pilot')
+  @Post('pilot/events/run')
+  async run(@Query() q: GetPathDto, @CurrentUser() user: AuthUser) {
+    const events = await this.events.run({ flightNumber: q.flightNumber.trim(), date: q.date, registration: q.registration, orgId: orgScope(user) });
+    return { events };
+  }
+
+  @Get('events/rules')
+  findRules() {
+    return this.events.findRules();
+  }
+
+  // rules apply to every organization's flights, so only our own staff change them
+  @Roles('superadmin')
+  @Post('events/rules')
+  createRule(@Body() dto: CreateEventRuleDto) {
+    return this.events.createRule(dto);
+  }
+
+  @Roles('superadmin')
+  @Patch('events/rules/:id')
+  updateRule(@Param('id', ParseIntPipe) id: number, @Body() dto: UpdateEventRuleDto) {
+    return this.events.updateRule(id, dto);
+  }
+
+  @Roles('superadmin')
+  @Delete('events/rules/:id')
+  removeRule(@Param('id', ParseIntPipe) id: number) {
+    return this.events.removeRule(id);
+  }
+}
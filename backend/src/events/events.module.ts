@@ -0,0 +1,15 @@
+// src/events/events.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EventRule } from './event-rule.entity';
+import { FlightEvent } from './flight-event.entity';
+import { EventsService } from './events.service';
+import { EventsController } from './events.controller';
+import { PilotModule } from '../pilot/pilot.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([EventRule, FlightEvent]), PilotModule],
+  providers: [EventsService],
+  controllers: [EventsController],
+})
+export class EventsModule {}
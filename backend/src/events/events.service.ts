@@ -0,0 +1,237 @@
+// src/events/events.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, FindOptionsWhere } from 'typeorm';
+import { EventRule, RuleComparison, Severity } from './event-rule.entity';
+import { FlightEvent } from './flight-event.entity';
+import { CreateEventRuleDto } from './dto/create-event-rule.dto';
+import { UpdateEventRuleDto } from './dto/update-event-rule.dto';
+import { PilotService, FdrTick, ScopedKey } from '../pilot/pilot.service';
+
+// starter set, inserted once when the rules table is empty
+const DEFAULT_RULES: Array<Partial<EventRule>> = [
+  {
+    code: 'BANK_35',
+    name: 'Bank angle above 35°',
+    parameter: 'rollAngle',
+    comparison: 'absGt',
+    threshold: 35,
+    minDurationSec: 2,
+    severity: 'medium',
+  },
+  {
+    code: 'SINK_RATE_APPROACH',
+    name: 'High sink rate on final approach',
+    description: 'Descent rate beyond 1000 ft/min after the approach gate (below ~2500 ft above the field)',
+    parameter: 'verticalSpeed',
+    comparison: 'lt',
+    threshold: -1000,
+    minDurationSec: 3,
+    phases: ['approach', 'landing'],
+    severity: 'high',
+  },
+  {
+    code: 'FLAP_OVERSPEED',
+    name: 'Airspeed above flap placard',
+    parameter: 'computedAirspeed',
+    comparison: 'gt',
+    threshold: 200,
+    minDurationSec: 2,
+    conditionParameter: 'flapPosition',
+    conditionComparison: 'gte',
+    conditionThreshold: 15,
+    severity: 'high',
+  },
+  {
+    code: 'AP_DISCONNECT_APPROACH',
+    name: 'Autopilot disconnect on approach',
+    parameter: 'ap1Engaged',
+    comparison: 'changesTo',
+    threshold: 0,
+    phases: ['approach'],
+    severity: 'low',
+  },
+];
+
+type Detected = Pick<
+  FlightEvent,
+  'startTs' | 'endTs' | 'durationSec' | 'peakValue' | 'peakTs' | 'phase'
+>;
+
+@Injectable()
+export class EventsService implements OnModuleInit {
+  private log = new Logger(EventsService.name);
+
+  constructor(
+    @InjectRepository(EventRule) private readonly rules: Repository<EventRule>,
+    @InjectRepository(FlightEvent) private readonly events: Repository<FlightEvent>,
+    private readonly pilot: PilotService,
+  ) {}
+
+  async onModuleInit() {
+    if ((await this.rules.count()) > 0) return;
+    await this.rules.save(DEFAULT_RULES.map((r) => this.rules.create(r)));
+    this.log.log(`seeded ${DEFAULT_RULES.length} default event rules`);
+  }
+
+  // ---------- rules ----------
+  findRules() {
+    return this.rules.find({ order: { id: 'ASC' } });
+  }
+
+  async createRule(dto: CreateEventRuleDto) {
+    const exists = await this.rules.findOne({ where: { code: dto.code } });
+    if (exists) throw new BadRequestException('Rule code already in use');
+    return this.rules.save(this.rules.create(dto));
+  }
+
+  async updateRule(id: number, dto: UpdateEventRuleDto) {
+    const rule = await this.rules.findOne({ where: { id } });
+    if (!rule) throw new NotFoundException('Rule not found');
+    Object.assign(rule, dto);
+    if (rule.conditionParameter && (!rule.conditionComparison || rule.conditionThreshold == null)) {
+      throw new BadRequestException('conditionParameter needs conditionComparison and conditionThreshold');
+    }
+    return this.rules.save(rule);
+  }
+
+  async removeRule(id: number): Promise<{ deleted: true }> {
+    const result = await this.rules.delete({ id });
+    if (result.affected === 0) throw new NotFoundException('Rule not found');
+    return { deleted: true };
+  }
+
+  // ---------- events ----------
+  async list(k: ScopedKey, severity?: Severity) {
+    const flight = await this.pilot.resolveFlight(k);
+    if (!flight) return [];
+    const where: FindOptionsWhere<FlightEvent> = { flightId: flight.id };
+    if (severity) where.severity = severity;
+    return this.events.find({ where, order: { startTs: 'ASC', id: 'ASC' } });
+  }
+
+  /**
+   * Evaluate every enabled rule over the flight and replace its stored events.
+   */
+  async run(k: ScopedKey): Promise<FlightEvent[]> {
+    const flight = await this.pilot.resolveFlight(k);
+    if (!flight) throw new NotFoundException('Flight not found');
+    const [ticks, rules] = await Promise.all([
+      this.pilot.getPath(k),
+      this.rules.find({ where: { enabled: true }, order: { id: 'ASC' } }),
+    ]);
+
+    const found: FlightEvent[] = [];
+    for (const rule of rules) {
+      for (const d of this.detect(rule, ticks)) {
+        found.push(
+          this.events.create({
+            ...d,
+            ruleId: rule.id,
+            ruleCode: rule.code,
+            flightNumber: flight.flightNumber,
+            date: flight.date,
+            flightId: flight.id,
+            // the flight's owner, also when cross-org staff run the rules
+            organizationId: flight.organizationId,
+            severity: rule.severity,
+            parameter: rule.parameter,
+          }),
+        );
+      }
+    }
+
+    const saved = await this.events.manager.transaction(async (m) => {
+      await m.delete(FlightEvent, { flightId: flight.id });
+      return m.save(found);
+    });
+    this.log.log(`events flight ${flight.id} (${flight.flightNumber}:${flight.date}) -> ${saved.length} from ${rules.length} rules`);
+    return saved.sort((a, b) => a.startTs - b.startTs);
+  }
+
+  /** Runs of ticks where the rule holds, at least minDurationSec long. */
+  detect(rule: EventRule, ticks: FdrTick[]): Detected[] {
+    const out: Detected[] = [];
+    const absPeak = rule.comparison === 'absGt' || rule.comparison === 'absGte';
+    const lowPeak = rule.comparison === 'lt' || rule.comparison === 'lte';
+    let open: { start: number; peakIdx: number } | null = null;
+
+    const close = (end: number) => {
+      if (!open) return;
+      const startTs = ticks[open.start].ts;
+      const endTs = ticks[end].ts;
+      const durationSec = (endTs - startTs) / 1000;
+      if (durationSec >= (rule.minDurationSec ?? 0)) {
+        out.push({
+          startTs,
+          endTs,
+          durationSec,
+          peakValue: ticks[open.peakIdx][rule.parameter],
+          peakTs: ticks[open.peakIdx].ts,
+          phase: ticks[open.start].phase ?? null,
+        });
+      }
+      open = null;
+    };
+
+    for (let i = 0; i < ticks.length; i++) {
+      const t = ticks[i];
+      const v = t[rule.parameter];
+      let hit = v != null && this.applies(rule, t) && this.compare(rule.comparison, v, rule.threshold);
+      // changesTo only opens on the transition itself, then lasts while the value stays
+      if (hit && rule.comparison === 'changesTo' && !open) {
+        const prev = i > 0 ? ticks[i - 1][rule.parameter] : null;
+        hit = prev != null && prev !== rule.threshold;
+      }
+
+      if (!hit) {
+        close(i - 1);
+        continue;
+      }
+      if (!open) open = { start: i, peakIdx: i };
+      const peak = ticks[open.peakIdx][rule.parameter] ?? v!;
+      const better = absPeak ? Math.abs(v!) > Math.abs(peak) : lowPeak ? v! < peak : v! > peak;
+      if (better) open.peakIdx = i;
+    }
+    close(ticks.length - 1);
+    return out;
+  }
+
+  private applies(rule: EventRule, t: FdrTick): boolean {
+    if (rule.phases?.length && (!t.phase || !rule.phases.includes(t.phase))) return false;
+    const alt = t.pressureAltitude;
+    if (rule.minAltitude != null && (alt == null || alt < rule.minAltitude)) return false;
+    if (rule.maxAltitude != null && (alt == null || alt > rule.maxAltitude)) return false;
+    if (rule.conditionParameter && rule.conditionComparison && rule.conditionThreshold != null) {
+      const c = t[rule.conditionParameter];
+      if (c == null || !this.compare(rule.conditionComparison, c, rule.conditionThreshold)) return false;
+    }
+    return true;
+  }
+
+  private compare(op: RuleComparison, v: number, threshold: number): boolean {
+    switch (op) {
+      case 'gt':
+        return v > threshold;
+      case 'gte':
+        return v >= threshold;
+      case 'lt':
+        return v < threshold;
+      case 'lte':
+        return v <= threshold;
+      case 'absGt':
+        return Math.abs(v) > threshold;
+      case 'absGte':
+        return Math.abs(v) >= threshold;
+      case 'eq':
+      case 'changesTo':
+        return v === threshold;
+    }
+  }
+}
@@ -0,0 +1,64 @@
+// src/events/flight-event.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, ValueTransformer } from 'typeorm';
+import type { Severity } from './event-rule.entity';
+
+// mysql2 hands BIGINT back as a string; epoch ms fits a JS number
+const epochMs: ValueTransformer = {
+  to: (v: number | null) => v,
+  from: (v: string | number | null) => (v == null ? null : Number(v)),
+};
+
+@Entity('flight_events')
+@Index(['flightNumber', 'date'])
+export class FlightEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ name: 'rule_id', type: 'int' })
+  ruleId: number;
+
+  @Column({ name: 'rule_code', type: 'varchar', length: 64 })
+  ruleCode: string;
+
+  @Index()
+  @Column({ name: 'organization_id', type: 'int', nullable: true })
+  organizationId: number | null;
+
+  @Column({ name: 'flight_number', type: 'varchar', length: 32 })
+  flightNumber: string;
+
+  @Column({ name: 'date', type: 'int' })
+  date: number;
+
+  @Index()
+  @Column({ name: 'flight_id', type: 'int', nullable: true })
+  flightId: number | null;
+
+  @Column({ type: 'varchar', length: 10 })
+  severity: Severity;
+
+  @Column({ type: 'varchar', length: 32 })
+  parameter: string;
+
+  @Column({ name: 'start_ts', type: 'bigint', transformer: epochMs })
+  startTs: number;
+
+  @Column({ name: 'end_ts', type: 'bigint', transformer: epochMs })
+  endTs: number;
+
+  @Column({ name: 'duration_sec', type: 'double' })
+  durationSec: number;
+
+  @Column({ name: 'peak_value', type: 'double', nullable: true })
+  peakValue: number | null;
+
+  @Column({ name: 'peak_ts', type: 'bigint', nullable: true, transformer: epochMs })
+  peakTs: number | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  phase: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+}
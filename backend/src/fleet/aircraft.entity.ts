@@ -0,0 +1,33 @@
+// src/fleet/aircraft.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+// An airframe of an organization's fleet, known by its registration (tail number).
+@Entity('aircraft')
+@Index(['organizationId', 'registration'], { unique: true })
+export class Aircraft {
+  @PrimaryGeneratedColumn() id: number;
+
+  @Column({ name: 'organization_id', type: 'int' })
+  organizationId: number;
+
+  // normalized: upper case, no spaces, e.g. "N123AB", "D-AIBA"
+  @Column({ type: 'varchar', length: 16 })
+  registration: string;
+
+  // ICAO type designator, e.g. "A320"; null until someone fills it in for an auto-registered tail
+  @Index() @Column({ type: 'varchar', length: 16, nullable: true })
+  type: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  operator: string | null;
+
+  // recorder parameter profile (frame layout) the airframe's data is decoded with
+  @Column({ name: 'parameter_profile', type: 'varchar', length: 64, nullable: true })
+  parameterProfile: string | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'datetime', precision: 6 })
+  updatedAt: Date;
+}
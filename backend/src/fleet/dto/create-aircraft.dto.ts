@@ -0,0 +1,31 @@
+// src/fleet/dto/create-aircraft.dto.ts
+import { IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+import { MAX_REGISTRATION_LENGTH } from '../registration';
+
+export class CreateAircraftDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_REGISTRATION_LENGTH)
+  registration: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(16)
+  type?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  operator?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  parameterProfile?: string;
+
+  // set by superadmins; admins always register aircraft for their own organization
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  organizationId?: number;
+}
@@ -0,0 +1,8 @@
+// src/fleet/dto/list-aircraft.dto.ts
+import { IsOptional, IsString } from 'class-validator';
+
+export class ListAircraftDto {
+  @IsOptional()
+  @IsString()
+  type?: string;
+}
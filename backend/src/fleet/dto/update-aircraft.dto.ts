@@ -0,0 +1,14 @@
+// src/fleet/dto/update-aircraft.dto.ts
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+// the registration is the airframe's identity in imported data, so it cannot be edited
+export class UpdateAircraftDto {
+  @IsOptional() @IsString() @MaxLength(16)
+  type?: string;
+
+  @IsOptional() @IsString() @MaxLength(100)
+  operator?: string;
+
+  @IsOptional() @IsString() @MaxLength(64)
+  parameterProfile?: string;
+}
@@ -0,0 +1,49 @@
+// src/fleet/fleet.controller.ts
+import { BadRequestException, Body, Controller, Get, Param, ParseIntPipe, Patch, Post, Query, UseGuards } from '@nestjs/common';
+import { FleetService } from './fleet.service';
+import { CreateAircraftDto } from './dto/create-aircraft.dto';
+import { UpdateAircraftDto } from './dto/update-aircraft.dto';
+import { ListAircraftDto } from './dto/list-aircraft.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthUser, CurrentUser } from '../auth/current-user.decorator';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { orgScope } from '../organizations/org-scope';
+
+@Controller('aircraft')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'pilot', 'viewer')
+export class FleetController {
+  constructor(
+    private readonly fleet: FleetService,
+    private readonly orgs: OrganizationsService,
+  ) {}
+
+  @Get()
+  findAll(@Query() q: ListAircraftDto, @CurrentUser() user: AuthUser) {
+    return this.fleet.findAll(orgScope(user), q);
+  }
+
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number, @CurrentUser() user: AuthUser) {
+    return this.fleet.findOne(id, orgScope(user));
+  }
+
+  @Roles('admin')
+  @Post()
+  async create(@Body() dto: CreateAircraftDto, @CurrentUser() user: AuthUser) {
+    let organizationId = orgScope(user);
+    if (organizationId === null) {
+      if (dto.organizationId == null) throw new BadRequestException('organizationId is required');
+      organizationId = (await this.orgs.findOne(dto.organizationId)).id;
+    }
+    return this.fleet.create(dto, organizationId);
+  }
+
+  @Roles('admin')
+  @Patch(':id')
+  update(@Param('id', ParseIntPipe) id: number, @Body() dto: UpdateAircraftDto, @CurrentUser() user: AuthUser) {
+    return this.fleet.update(id, dto, orgScope(user));
+  }
+}
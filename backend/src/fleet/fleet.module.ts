@@ -0,0 +1,16 @@
+// src/fleet/fleet.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Aircraft } from './aircraft.entity';
+import { Flight } from './flight.entity';
+import { FleetService } from './fleet.service';
+import { FleetController } from './fleet.controller';
+import { OrganizationsModule } from '../organizations/organizations.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Aircraft, Flight]), OrganizationsModule],
+  providers: [FleetService],
+  controllers: [FleetController],
+  exports: [FleetService],
+})
+export class FleetModule {}
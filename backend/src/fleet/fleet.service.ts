@@ -0,0 +1,141 @@
+// src/fleet/fleet.service.ts
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, FindOptionsWhere, IsNull, Repository } from 'typeorm';
+import { Aircraft } from './aircraft.entity';
+import { Flight } from './flight.entity';
+import { normalizeRegistration } from './registration';
+import { CreateAircraftDto } from './dto/create-aircraft.dto';
+import { UpdateAircraftDto } from './dto/update-aircraft.dto';
+import { OrgScope } from '../organizations/org-scope';
+import { FdrRecord } from '../pilot/fdr-record.entity';
+import { ImportBatch } from '../import/import-batch.entity';
+import { FlightEvent } from '../events/flight-event.entity';
+
+/** What the importer knows about a flight before it has an id. */
+export type FlightIdentity = {
+  organizationId: number;
+  registration: string;
+  flightNumber: string;
+  date: number;
+};
+
+@Injectable()
+export class FleetService implements OnModuleInit {
+  private log = new Logger(FleetService.name);
+
+  constructor(
+    @InjectRepository(Aircraft) private readonly aircraft: Repository<Aircraft>,
+    @InjectRepository(Flight) private readonly flights: Repository<Flight>,
+  ) {}
+
+  // records from before flights existed: one flight per (organization, flight number, date), no aircraft.
+  // OrganizationsService has given them an organization by now: this module imports it, so it starts first
+  async onModuleInit() {
+    const m = this.flights.manager;
+    const groups = await m
+      .createQueryBuilder(FdrRecord, 'r')
+      .select('r.organizationId', 'organizationId')
+      .addSelect('r.flightNumber', 'flightNumber')
+      .addSelect('r.date', 'date')
+      .where('r.flightId IS NULL')
+      .andWhere('r.organizationId IS NOT NULL')
+      .groupBy('r.organizationId')
+      .addGroupBy('r.flightNumber')
+      .addGroupBy('r.date')
+      .getRawMany<{ organizationId: string | number; flightNumber: string; date: string | number }>();
+    if (!groups.length) return;
+
+    for (const g of groups) {
+      const organizationId = Number(g.organizationId);
+      const date = Number(g.date);
+      const flight = await this.flightFor(m, { organizationId, registration: '', flightNumber: g.flightNumber, date });
+      const legacy = {
+        flightId: IsNull(),
+        flightNumber: g.flightNumber,
+        date,
+        organizationId,
+      };
+      await m.update(FdrRecord, legacy, { flightId: flight.id });
+      await m.update(ImportBatch, legacy, { flightId: flight.id });
+      await m.update(FlightEvent, legacy, { flightId: flight.id });
+    }
+    this.log.log(`grouped legacy records into ${groups.length} flight(s)`);
+  }
+
+  // ---------- aircraft ----------
+  findAll(scope: OrgScope, filter: { type?: string } = {}) {
+    const where: FindOptionsWhere<Aircraft> = {};
+    if (scope !== null) where.organizationId = scope;
+    if (filter.type) where.type = filter.type.trim().toUpperCase();
+    return this.aircraft.find({ where, order: { registration: 'ASC' } });
+  }
+
+  async findOne(id: number, scope: OrgScope) {
+    const found = await this.aircraft.findOne({ where: scope === null ? { id } : { id, organizationId: scope } });
+    if (!found) throw new NotFoundException('Aircraft not found');
+    return found;
+  }
+
+  async create(dto: CreateAircraftDto, organizationId: number) {
+    const registration = normalizeRegistration(dto.registration);
+    if (!registration) throw new BadRequestException('registration must not be blank');
+    if (await this.aircraft.exists({ where: { organizationId, registration } })) {
+      throw new BadRequestException(`Aircraft ${registration} is already registered`);
+    }
+    return this.aircraft.save(
+      this.aircraft.create({
+        organizationId,
+        registration,
+        type: dto.type?.trim().toUpperCase() || null,
+        operator: dto.operator?.trim() || null,
+        parameterProfile: dto.parameterProfile?.trim() || null,
+      }),
+    );
+  }
+
+  async update(id: number, dto: UpdateAircraftDto, scope: OrgScope) {
+    const found = await this.findOne(id, scope);
+    if (dto.type !== undefined) found.type = dto.type.trim().toUpperCase() || null;
+    if (dto.operator !== undefined) found.operator = dto.operator.trim() || null;
+    if (dto.parameterProfile !== undefined) found.parameterProfile = dto.parameterProfile.trim() || null;
+    return this.aircraft.save(found);
+  }
+
+  // ---------- flights ----------
+  /**
+   * The flight rows with this identity belong to, created on first sight.
+   * A registration the organization has not registered yet becomes a new
+   * aircraft with no type, to be completed through PATCH /aircraft/:id.
+   */
+  async flightFor(m: EntityManager, k: FlightIdentity): Promise<Flight> {
+    const registration = normalizeRegistration(k.registration);
+    const where = {
+      organizationId: k.organizationId,
+      registration,
+      flightNumber: k.flightNumber,
+      date: k.date,
+    };
+    const found = await m.findOne(Flight, { where });
+    if (found) return found;
+
+    const aircraft =
+      registration ? await this.aircraftFor(m, k.organizationId, registration) : null;
+    return m.save(
+      m.create(Flight, {
+        organizationId: k.organizationId,
+        aircraftId: aircraft?.id ?? null,
+        registration,
+        flightNumber: k.flightNumber,
+        date: k.date,
+      }),
+    );
+  }
+
+  private async aircraftFor(m: EntityManager, organizationId: number, registration: string): Promise<Aircraft> {
+    const found = await m.findOne(Aircraft, { where: { organizationId, registration } });
+    if (found) return found;
+    this.log.log(`registered aircraft ${registration} for organization ${organizationId}`);
+    return m.save(m.create(Aircraft, { organizationId, registration }));
+  }
+}
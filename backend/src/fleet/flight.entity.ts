@@ -0,0 +1,56 @@
+// src/fleet/flight.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Aircraft } from './aircraft.entity';
+
+/**
+ * One flight: the records an airframe logged under a flight number on a day.
+ * fdr_records, import_batches and flight_events point here via flight_id.
+ */
+@Entity('flights')
+@Index(['organizationId', 'registration', 'flightNumber', 'date'], { unique: true })
+@Index(['date', 'flightNumber'])
+export class Flight {
+  @PrimaryGeneratedColumn() id: number;
+
+  // never null: the unique index above would not hold, MySQL takes NULLs as distinct
+  @Column({ name: 'organization_id', type: 'int' })
+  organizationId: number;
+
+  @Index() @Column({ name: 'aircraft_id', type: 'int', nullable: true })
+  aircraftId: number | null;
+
+  @ManyToOne(() => Aircraft, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'aircraft_id' })
+  aircraft?: Aircraft;
+
+  // registration as recorded; '' for data without one (legacy imports)
+  @Column({ type: 'varchar', length: 16, default: '' })
+  registration: string;
+
+  @Column({ name: 'flight_number', type: 'varchar', length: 32 })
+  flightNumber: string;
+
+  @Column({ name: 'date', type: 'int' })
+  date: number; // yyyymmdd
+
+  // OurAirports idents and runway ends, matched from the first and last
+  // on-ground positions; null where the recording starts or ends in the air
+  @Index() @Column({ name: 'departure_airport', type: 'varchar', length: 16, nullable: true })
+  departureAirport: string | null;
+
+  @Column({ name: 'departure_runway', type: 'varchar', length: 8, nullable: true })
+  departureRunway: string | null;
+
+  @Index() @Column({ name: 'arrival_airport', type: 'varchar', length: 16, nullable: true })
+  arrivalAirport: string | null;
+
+  @Column({ name: 'arrival_runway', type: 'varchar', length: 8, nullable: true })
+  arrivalRunway: string | null;
+
+  // null: not matched yet (flights imported before airports were)
+  @Column({ name: 'airports_matched_at', type: 'datetime', nullable: true })
+  airportsMatchedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+}
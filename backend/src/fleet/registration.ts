@@ -0,0 +1,7 @@
+// src/fleet/registration.ts
+
+export const MAX_REGISTRATION_LENGTH = 16;
+
+/** Canonical spelling of a tail number: " d-aiba " and "D-AIBA" are the same airframe. */
+export const normalizeRegistration = (v: unknown): string =>
+  typeof v === 'string' || typeof v === 'number' ? String(v).replace(/\s+/g, '').toUpperCase() : '';
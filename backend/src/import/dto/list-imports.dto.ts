@@ -0,0 +1,15 @@
+// src/import/dto/list-imports.dto.ts
+import { IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ListImportsDto {
+  @IsOptional()
+  @IsString()
+  flightNumber?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(19000101) // yyyymmdd
+  date?: number;
+}
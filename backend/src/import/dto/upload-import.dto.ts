@@ -0,0 +1,19 @@
+// src/import/dto/upload-import.dto.ts
+import { IsInt, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { MAX_REGISTRATION_LENGTH } from '../../fleet/registration';
+
+export class UploadImportDto {
+  // owner of the imported flights; only cross-org staff choose, everyone else imports into their own
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  organizationId?: number;
+
+  // aircraft for rows whose sheet has no registration column (or leaves it blank)
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_REGISTRATION_LENGTH)
+  registration?: string;
+}
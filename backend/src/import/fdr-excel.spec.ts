@@ -0,0 +1,20 @@
+import { BUILTIN_COLUMNS, ImportColumn, mapRow, unmappedHeaders } from './fdr-excel';
+
+const KEYS = { 'Flight Number': '122', Date: 20250324, 'UTC Time (hh:mm:ss)': '10:00:00', 'FDR Time': 7 };
+const N1: ImportColumn = { name: 'engine1N1', type: 'float', aliases: ['Eng 1 N1 (%)', 'N1 ENG1'], builtIn: false };
+
+describe('fdr-excel mapRow', () => {
+  it('reads built-ins into their columns and registered parameters into extra', () => {
+    const { row } = mapRow({ ...KEYS, 'Roll Angle (degs.)': '12.4', 'N1 ENG1': '87.5' }, [...BUILTIN_COLUMNS, N1]);
+    expect(row).toMatchObject({ flightNumber: '122', date: 20250324, fdrTime: 7, rollAngle: 12, extra: { engine1N1: 87.5 } });
+  });
+
+  it('leaves extra out when no registered parameter has a value', () => {
+    const { row } = mapRow({ ...KEYS, 'Eng 1 N1 (%)': null }, [...BUILTIN_COLUMNS, N1]);
+    expect(row).not.toHaveProperty('extra');
+  });
+
+  it('lists the headers nothing reads', () => {
+    expect(unmappedHeaders([...Object.keys(KEYS), 'N1 ENG1', 'EGT 1'], [...BUILTIN_COLUMNS, N1])).toEqual(['EGT 1']);
+  });
+});
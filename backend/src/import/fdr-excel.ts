@@ -0,0 +1,213 @@
+// src/import/fdr-excel.ts
+// xlsx 0.18.5 is the last SheetJS release on npm and has published advisories
+// for crafted workbooks (prototype pollution, fixed in 0.19.3; ReDoS, fixed in
+// 0.20.2); later releases ship only from cdn.sheetjs.com. Accepted here because
+// only org admins can upload, ImportController caps files at 50 MB and every
+// value read goes through the coercions below. Move to the CDN tarball
+// (https://cdn.sheetjs.com/xlsx-0.20.3/xlsx-0.20.3.tgz) where installs can reach it.
+import * as XLSX from 'xlsx';
+import { FdrRecord } from '../pilot/fdr-record.entity';
+import { MAX_REGISTRATION_LENGTH, normalizeRegistration } from '../fleet/registration';
+import { BUILTIN_PARAMETERS, ParameterDefinition, ParameterType } from '../parameters/builtin-parameters';
+
+// set by the importer, not read from the sheet
+type OwnerField = 'id' | 'batchId' | 'organizationId' | 'flightId';
+export type FdrRow = Pick<FdrRecord, 'flightNumber' | 'date' | 'utcTime'> &
+  Partial<Omit<FdrRecord, OwnerField | 'flightNumber' | 'date' | 'utcTime'>>;
+
+// Excel header → FdrRecord property for the columns that key every row
+const KEY_HEADERS: Record<string, KeyField> = {
+  'FDR Time': 'fdrTime',
+  'UTC Time (hh:mm:ss)': 'utcTime',
+  Date: 'date',
+  'Flight Number': 'flightNumber',
+};
+type KeyField = 'fdrTime' | 'utcTime' | 'date' | 'flightNumber';
+
+/**
+ * A recorded parameter as the importer reads it: the first of its header
+ * aliases with a value, coerced by type. Built-ins fill their own column,
+ * the rest go to `extra`. ParametersService.list() entries fit.
+ */
+export type ImportColumn = Pick<ParameterDefinition, 'name' | 'type' | 'aliases'> & { builtIn: boolean };
+
+// the built-in parameters under their default headers, for callers without the registry
+export const BUILTIN_COLUMNS: ImportColumn[] = BUILTIN_PARAMETERS.map((p) => ({ ...p, builtIn: true }));
+
+const REQUIRED_HEADERS = ['Flight Number', 'Date', 'UTC Time (hh:mm:ss)'];
+
+// optional tail number column; it lives on the flight, not on FdrRecord
+const REGISTRATION_HEADERS = ['Registration', 'Tail Number', 'Aircraft Registration'];
+
+// ---- coercion helpers -------------------------------------------------------
+
+const isBlank = (v: unknown) => v === null || v === undefined || v === '';
+
+// text of a cell that holds text or a number; anything else reads as blank
+const cellText = (v: unknown) => (typeof v === 'string' || typeof v === 'number' ? String(v).trim() : '');
+
+export const toInt = (v: unknown): number | null => {
+  if (isBlank(v)) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.round(n) : null;
+};
+
+export const toFloat = (v: unknown): number | null => {
+  if (isBlank(v)) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+export const to01 = (v: unknown): 0 | 1 | null => {
+  if (isBlank(v)) return null; // keep NULL
+  if (typeof v === 'string') {
+    const s = v.trim().toLowerCase();
+    if (['1', 'true', 'yes', 'up', 'engaged', 'air'].includes(s)) return 1;
+    if (['0', 'false', 'no', 'down', 'off', 'ground'].includes(s)) return 0;
+  }
+  const n = Number(v);
+  if (n === 1) return 1;
+  if (n === 0) return 0;
+  return null; // unknowns stay NULL
+};
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/** Normalize to "HH:MM:SS"; null when the value cannot be read as a time of day. */
+export function toUtcString(v: unknown): string | null {
+  if (isBlank(v)) return null;
+  if (v instanceof Date) {
+    return `${pad2(v.getUTCHours())}:${pad2(v.getUTCMinutes())}:${pad2(v.getUTCSeconds())}`;
+  }
+  if (typeof v === 'number') {
+    // Excel time as fraction of a day (0..1)
+    if (v >= 0 && v < 1) {
+      const totalSec = Math.round(v * 86400) % 86400;
+      return `${pad2(Math.floor(totalSec / 3600))}:${pad2(Math.floor((totalSec % 3600) / 60))}:${pad2(totalSec % 60)}`;
+    }
+    // seconds from midnight
+    if (v >= 1 && v < 86400) {
+      return `${pad2(Math.floor(v / 3600))}:${pad2(Math.floor((v % 3600) / 60))}:${pad2(Math.floor(v % 60))}`;
+    }
+    return null;
+  }
+  // string like "15:08:03" -> normalize
+  const m = /^(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?$/.exec(cellText(v));
+  if (!m) return null;
+  const [hh, mm, ss] = [Number(m[1]), Number(m[2]), Number(m[3] ?? 0)];
+  if (hh > 23 || mm > 59 || ss > 59) return null;
+  return `${pad2(hh)}:${pad2(mm)}:${pad2(ss)}`;
+}
+
+/** Date column: prefer yyyymmdd; Excel dates and parseable strings are converted. */
+export function toYYYYMMDD(v: unknown): number | null {
+  if (isBlank(v)) return null;
+  const fromDate = (d: Date) =>
+    Number(`${d.getUTCFullYear()}${pad2(d.getUTCMonth() + 1)}${pad2(d.getUTCDate())}`);
+  if (v instanceof Date) return isNaN(v.getTime()) ? null : fromDate(v);
+
+  const s = cellText(v);
+  if (!s) return null;
+  if (/^\d{8}$/.test(s)) return Number(s); // already yyyymmdd
+  // try parse "YYYY-MM-DD" or similar
+  const d = new Date(s);
+  if (!isNaN(d.getTime())) return fromDate(d);
+  return null;
+}
+
+const isValidYmd = (n: number) => {
+  const y = Math.floor(n / 10000);
+  const m = Math.floor((n % 10000) / 100);
+  const d = n % 100;
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return y >= 1900 && dt.getUTCMonth() === m - 1 && dt.getUTCDate() === d;
+};
+
+const COERCE: Record<KeyField, (v: unknown) => unknown> = {
+  fdrTime: toInt,
+  utcTime: toUtcString,
+  date: toYYYYMMDD,
+  flightNumber: cellText,
+};
+
+const COERCE_TYPE: Record<ParameterType, (v: unknown) => number | null> = {
+  float: toFloat,
+  integer: toInt,
+  boolean: to01,
+};
+
+// ---- sheet parsing ----------------------------------------------------------
+
+export type ParsedSheet = {
+  sheet: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+};
+
+export function readFirstSheet(buffer: Buffer): ParsedSheet {
+  const wb = XLSX.read(buffer, { type: 'buffer', cellDates: true });
+  const sheet = wb.SheetNames[0];
+  if (!sheet) return { sheet: '', headers: [], rows: [] };
+  const ws = wb.Sheets[sheet];
+  const headerRow = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, range: 0 })[0] ?? [];
+  const headers = headerRow.map(cellText);
+  // rows as objects keyed by header text
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(ws, { raw: true, defval: null });
+  return { sheet, headers, rows };
+}
+
+export function missingHeaders(headers: string[]): string[] {
+  return REQUIRED_HEADERS.filter((h) => !headers.includes(h));
+}
+
+/** Sheet headers no registered parameter reads: their values are not imported. */
+export function unmappedHeaders(headers: string[], columns: ImportColumn[]): string[] {
+  const known = new Set([...Object.keys(KEY_HEADERS), ...REGISTRATION_HEADERS, ...columns.flatMap((c) => c.aliases)]);
+  return headers.filter((h) => h && !known.has(h));
+}
+
+/**
+ * Map one sheet row onto FdrRecord fields plus the aircraft registration
+ * ('' when the sheet has none). Returns the reasons it was rejected, or the
+ * mapped row when it is usable.
+ */
+export function mapRow(
+  raw: Record<string, unknown>,
+  columns: ImportColumn[] = BUILTIN_COLUMNS,
+): { row?: FdrRow; registration: string; reasons: string[] } {
+  const out: Record<string, unknown> = {};
+  for (const [header, field] of Object.entries(KEY_HEADERS)) {
+    out[field] = COERCE[field](raw[header]);
+  }
+  const extra: Record<string, number> = {};
+  for (const c of columns) {
+    const cell = c.aliases.map((h) => raw[h]).find((v) => !isBlank(v));
+    const value = cell === undefined ? null : COERCE_TYPE[c.type](cell);
+    if (c.builtIn) out[c.name] = value;
+    else if (value != null) extra[c.name] = value;
+  }
+  if (Object.keys(extra).length) out.extra = extra;
+  const regHeader = REGISTRATION_HEADERS.find((h) => !isBlank(raw[h]));
+  const registration = regHeader ? normalizeRegistration(raw[regHeader]) : '';
+
+  const reasons: string[] = [];
+  if (registration.length > MAX_REGISTRATION_LENGTH) {
+    reasons.push(`registration longer than ${MAX_REGISTRATION_LENGTH} characters`);
+  }
+  const flightNumber = out.flightNumber as string;
+  if (!flightNumber) reasons.push('missing flight number');
+  else if (flightNumber.length > 32) reasons.push('flight number longer than 32 characters');
+
+  const date = out.date as number | null;
+  if (date == null) reasons.push('missing or unreadable date');
+  else if (!isValidYmd(date)) reasons.push(`invalid date ${date}`);
+
+  if (out.utcTime == null) reasons.push('missing or unreadable UTC time');
+
+  const lat = out.latitude as number | null;
+  const lon = out.longitude as number | null;
+  if (lat != null && (lat < -90 || lat > 90)) reasons.push(`latitude ${lat} out of range`);
+  if (lon != null && (lon < -180 || lon > 180)) reasons.push(`longitude ${lon} out of range`);
+
+  return reasons.length ? { registration, reasons } : { row: out as FdrRow, registration, reasons };
+}
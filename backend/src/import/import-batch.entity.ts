@@ -0,0 +1,49 @@
+// src/import/import-batch.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn } from 'typeorm';
+
+export type ImportBatchStatus = 'active' | 'replaced' | 'rolled_back';
+
+// One batch per flight found in an uploaded file; fdr_records.batch_id points here.
+@Entity('import_batches')
+@Index(['flightId', 'status'])
+export class ImportBatch {
+  @PrimaryGeneratedColumn() id: number;
+
+  // sha256 of the uploaded file, hex
+  @Index() @Column({ name: 'file_hash', type: 'char', length: 64 })
+  fileHash: string;
+
+  @Column({ name: 'file_name', type: 'varchar', length: 255 })
+  fileName: string;
+
+  @Column({ name: 'flight_number', type: 'varchar', length: 32 })
+  flightNumber: string;
+
+  @Column({ name: 'date', type: 'int' })
+  date: number;
+
+  @Column({ name: 'flight_id', type: 'int', nullable: true })
+  flightId: number | null;
+
+  @Index() @Column({ name: 'organization_id', type: 'int', nullable: true })
+  organizationId: number | null;
+
+  @Column({ name: 'row_count', type: 'int' })
+  rowCount: number;
+
+  @Column({ type: 'varchar', length: 20, default: 'active' })
+  status: ImportBatchStatus;
+
+  // 0-100 from the data-quality checks (see /pilot/quality); null until scored
+  @Column({ name: 'quality_score', type: 'float', nullable: true })
+  qualityScore: number | null;
+
+  @Column({ name: 'created_by', type: 'int', nullable: true })
+  createdBy: number | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+
+  @Column({ name: 'rolled_back_at', type: 'datetime', precision: 6, nullable: true })
+  rolledBackAt: Date | null;
+}
@@ -0,0 +1,73 @@
+// src/import/import.controller.ts
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ImportService } from './import.service';
+import { ListImportsDto } from './dto/list-imports.dto';
+import { UploadImportDto } from './dto/upload-import.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthUser, CurrentUser } from '../auth/current-user.decorator';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { orgScope } from '../organizations/org-scope';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+import { Audit } from '../audit/audit.decorator';
+
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+@Controller('imports')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+@UseInterceptors(AuditInterceptor)
+export class ImportController {
+  constructor(
+    private readonly imports: ImportService,
+    private readonly orgs: OrganizationsService,
+  ) {}
+
+  @Post()
+  @Audit('import.upload')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_UPLOAD_BYTES } }))
+  async upload(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() dto: UploadImportDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    if (!file) throw new BadRequestException('Expected a multipart "file" field');
+    if (!/\.xlsx$/i.test(file.originalname)) {
+      throw new BadRequestException('Only .xlsx files are supported');
+    }
+    let organizationId = orgScope(user);
+    if (organizationId === null) {
+      if (dto.organizationId == null) throw new BadRequestException('organizationId is required');
+      organizationId = (await this.orgs.findOne(dto.organizationId)).id;
+    }
+    return this.imports.importExcel(file.originalname, file.buffer, organizationId, {
+      userId: user.id,
+      registration: dto.registration,
+    });
+  }
+
+  @Get()
+  history(@Query() q: ListImportsDto, @CurrentUser() user: AuthUser) {
+    return this.imports.history(q, orgScope(user));
+  }
+
+  @Post(':id/rollback')
+  @Audit('import.rollback')
+  rollback(@Param('id', ParseIntPipe) id: number, @CurrentUser() user: AuthUser) {
+    return this.imports.rollback(id, orgScope(user));
+  }
+}
@@ -0,0 +1,26 @@
+// src/import/import.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FdrRecord } from '../pilot/fdr-record.entity';
+import { PilotModule } from '../pilot/pilot.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { FleetModule } from '../fleet/fleet.module';
+import { AuditModule } from '../audit/audit.module';
+import { ParametersModule } from '../parameters/parameters.module';
+import { ImportBatch } from './import-batch.entity';
+import { ImportService } from './import.service';
+import { ImportController } from './import.controller';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([FdrRecord, ImportBatch]),
+    PilotModule,
+    OrganizationsModule,
+    FleetModule,
+    AuditModule,
+    ParametersModule,
+  ],
+  providers: [ImportService],
+  controllers: [ImportController],
+})
+export class ImportModule {}
@@ -0,0 +1,126 @@
+import * as XLSX from 'xlsx';
+import { ImportService } from './import.service';
+import { ImportBatch } from './import-batch.entity';
+import { BUILTIN_COLUMNS } from './fdr-excel';
+import { FdrRecord } from '../pilot/fdr-record.entity';
+import { FlightEvent } from '../events/flight-event.entity';
+import { Flight } from '../fleet/flight.entity';
+
+const FLIGHT = { id: 5, organizationId: 3, registration: 'DAIBA', flightNumber: '122', date: 20250324 };
+
+function workbook(altitudes: number[]): Buffer {
+  const rows = altitudes.map((alt, i) => ({
+    'Flight Number': '122',
+    Date: 20250324,
+    'UTC Time (hh:mm:ss)': `10:00:0${i}`,
+    'Pressure Altitude (feet)': alt,
+  }));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), 'FDR');
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+// the EntityManager calls the importer makes, over in-memory tables
+class FakeManager {
+  readonly tables = new Map<unknown, Row[]>([[Flight, [{ ...FLIGHT }]]]);
+  private ids = 0;
+
+  rows(entity: unknown): Row[] {
+    if (!this.tables.has(entity)) this.tables.set(entity, []);
+    return this.tables.get(entity)!;
+  }
+  private matching(entity: unknown, where: Where, withDeleted = false) {
+    return this.rows(entity).filter(
+      (r) => (withDeleted || !r.deletedAt) && Object.entries(where).every(([k, v]) => r[k] === v),
+    );
+  }
+
+  transaction<T>(work: (m: FakeManager) => Promise<T>) {
+    return work(this);
+  }
+  create(entity: { prototype: object }, values: Row) {
+    return Object.assign(Object.create(entity.prototype) as Row, values);
+  }
+  save(row: Row) {
+    if (row.id == null) this.rows(row.constructor).push(Object.assign(row, { id: ++this.ids }));
+    return Promise.resolve(row);
+  }
+  findOne(entity: unknown, { where, order }: { where: Where; order?: { id: 'ASC' | 'DESC' } }) {
+    const found = this.matching(entity, where);
+    return Promise.resolve((order?.id === 'DESC' ? found.at(-1) : found[0]) ?? null);
+  }
+  insert(entity: unknown, rows: Row[]) {
+    this.rows(entity).push(...rows.map((r) => ({ ...r, id: ++this.ids })));
+    return Promise.resolve();
+  }
+  update(entity: unknown, where: Where, values: Row) {
+    this.matching(entity, where).forEach((r) => Object.assign(r, values));
+    return Promise.resolve();
+  }
+  delete(entity: unknown, where: Where) {
+    const gone = new Set(this.matching(entity, where, true));
+    this.tables.set(entity, this.rows(entity).filter((r) => !gone.has(r)));
+    return Promise.resolve({ affected: gone.size });
+  }
+  softDelete(entity: unknown, where: Where) {
+    this.matching(entity, where).forEach((r) => (r.deletedAt = new Date()));
+    return Promise.resolve();
+  }
+  restore(entity: unknown, where: Where) {
+    this.matching(entity, where, true).forEach((r) => (r.deletedAt = null));
+    return Promise.resolve();
+  }
+}
+
+function setup() {
+  const m = new FakeManager();
+  const pilot = {
+    forgetFlight: jest.fn(),
+    flightQuality: jest.fn(() => Promise.resolve({ score: 90 })),
+    matchAirports: jest.fn(() => Promise.resolve({ departure: null, arrival: null })),
+  };
+  const fleet = { flightFor: jest.fn(() => Promise.resolve(FLIGHT)) };
+  const batches = { update: jest.fn(() => Promise.resolve()) };
+  const parameters = { list: () => BUILTIN_COLUMNS };
+  const service = new ImportService({ manager: m } as never, batches as never, pilot as never, fleet as never, parameters as never);
+  const live = () => m.rows(FdrRecord).filter((r) => !r.deletedAt);
+  return { service, m, live, pilot };
+}
+
+describe('ImportService', () => {
+  it('brings the replaced import back when the one that replaced it is rolled back', async () => {
+    const { service, m, live } = setup();
+    const first = await service.importExcel('a.xlsx', workbook([1000, 1100, 1200]), 3);
+    m.rows(FlightEvent).push({ id: 99, flightId: FLIGHT.id, ruleCode: 'BANK_35' });
+
+    const second = await service.importExcel('b.xlsx', workbook([2000, 2100]), 3);
+    expect(second.flights[0].action).toBe('replaced');
+    expect(live().map((r) => r.pressureAltitude)).toEqual([2000, 2100]);
+    expect(m.rows(FlightEvent)).toEqual([]);
+
+    await service.rollback(second.flights[0].batchId, 3);
+    expect(live().map((r) => r.pressureAltitude)).toEqual([1000, 1100, 1200]);
+    expect(m.rows(ImportBatch).map((b) => [b.id, b.status])).toEqual([
+      [first.flights[0].batchId, 'active'],
+      [second.flights[0].batchId, 'rolled_back'],
+    ]);
+  });
+
+  it('leaves the flight empty when the first import is rolled back', async () => {
+    const { service, live } = setup();
+    const { flights } = await service.importExcel('a.xlsx', workbook([1000]), 3);
+    await service.rollback(flights[0].batchId, 3);
+    expect(live()).toEqual([]);
+  });
+
+  it('does not match airports again for an unchanged re-import', async () => {
+    const { service, pilot } = setup();
+    await service.importExcel('a.xlsx', workbook([1000]), 3);
+    const again = await service.importExcel('a.xlsx', workbook([1000]), 3);
+    expect(again.flights[0].action).toBe('unchanged');
+    expect(pilot.matchAirports).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,264 @@
+// src/import/import.service.ts
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, FindOptionsWhere } from 'typeorm';
+import { createHash } from 'crypto';
+import { FdrRecord } from '../pilot/fdr-record.entity';
+import { FlightRoute, PilotService } from '../pilot/pilot.service';
+import { FleetService } from '../fleet/fleet.service';
+import { Flight } from '../fleet/flight.entity';
+import { normalizeRegistration } from '../fleet/registration';
+import { OrgScope } from '../organizations/org-scope';
+import { ImportBatch } from './import-batch.entity';
+import { FlightEvent } from '../events/flight-event.entity';
+import { FdrRow, mapRow, missingHeaders, readFirstSheet, unmappedHeaders } from './fdr-excel';
+import { ParametersService } from '../parameters/parameters.service';
+
+export type RejectedRow = { row: number; reasons: string[] };
+
+export type ImportedFlight = {
+  flightId: number;
+  registration: string;
+  flightNumber: string;
+  date: number;
+  organizationId: number;
+  rows: number;
+  batchId: number;
+  // created: first import of this flight; replaced: previous rows swapped out;
+  // unchanged: the same file is already the active import for this flight
+  action: 'created' | 'replaced' | 'unchanged';
+  qualityScore: number | null; // 0-100, see PilotService.getQuality
+  route: FlightRoute | null; // departure and arrival, matched once new rows are committed
+};
+
+export type ImportReport = {
+  file: string;
+  fileHash: string;
+  sheet: string;
+  totalRows: number;
+  // columns no registered parameter reads; register one to import them
+  unmappedHeaders: string[];
+  inserted: number;
+  rejected: RejectedRow[];
+  flights: ImportedFlight[];
+};
+
+const BATCH = 1000;
+
+@Injectable()
+export class ImportService {
+  private log = new Logger(ImportService.name);
+
+  constructor(
+    @InjectRepository(FdrRecord)
+    private readonly repo: Repository<FdrRecord>,
+    @InjectRepository(ImportBatch)
+    private readonly batches: Repository<ImportBatch>,
+    private readonly pilot: PilotService,
+    private readonly fleet: FleetService,
+    private readonly parameters: ParametersService,
+  ) {}
+
+  /**
+   * Import a workbook; its flights belong to `organizationId` and only replace
+   * that org's rows. `registration` applies to rows that do not name an aircraft.
+   */
+  async importExcel(
+    fileName: string,
+    buffer: Buffer,
+    organizationId: number,
+    opts: { userId?: number; registration?: string } = {},
+  ): Promise<ImportReport> {
+    const fileHash = createHash('sha256').update(buffer).digest('hex');
+
+    let parsed: ReturnType<typeof readFirstSheet>;
+    try {
+      parsed = readFirstSheet(buffer);
+    } catch {
+      throw new BadRequestException('File is not a readable .xlsx workbook');
+    }
+
+    const missing = missingHeaders(parsed.headers);
+    if (missing.length) {
+      throw new BadRequestException(`Missing required columns: ${missing.join(', ')}`);
+    }
+
+    const columns = this.parameters.list();
+    const fallbackRegistration = normalizeRegistration(opts.registration);
+    const groups = new Map<string, { registration: string; rows: FdrRow[] }>();
+    const rejected: RejectedRow[] = [];
+    parsed.rows.forEach((raw, i) => {
+      const mapped = mapRow(raw, columns);
+      const { row } = mapped;
+      // +2: 1-based rows and the header line
+      if (!row) return rejected.push({ row: i + 2, reasons: mapped.reasons });
+      const registration = mapped.registration || fallbackRegistration;
+      const k = `${registration}/${row.flightNumber}:${row.date}`;
+      const g = groups.get(k);
+      if (g) g.rows.push(row);
+      else groups.set(k, { registration, rows: [row] });
+    });
+
+    // one transaction for the whole file: either every flight in it is swapped in or none
+    const flights = await this.repo.manager.transaction(async (m) => {
+      const out: ImportedFlight[] = [];
+      for (const { registration, rows } of groups.values()) {
+        const { flightNumber, date } = rows[0];
+        const flight = await this.fleet.flightFor(m, { organizationId, registration, flightNumber, date });
+        out.push(await this.importFlight(m, flight, rows, fileName, fileHash, opts.userId ?? null));
+      }
+      return out;
+    });
+
+    // replayed flights are cached in memory; make the next read see the new rows
+    flights.filter((f) => f.action !== 'unchanged').forEach((f) => this.pilot.forgetFlight(f));
+    for (const f of flights) {
+      if (f.qualityScore == null) f.qualityScore = await this.score(f);
+      // an unchanged flight keeps the airports matched when its rows came in
+      if (f.action !== 'unchanged') f.route = await this.pilot.matchAirports({ id: f.flightId });
+    }
+
+    const inserted = flights
+      .filter((f) => f.action !== 'unchanged')
+      .reduce((n, f) => n + f.rows, 0);
+    this.log.log(
+      `import ${fileName} (${fileHash.slice(0, 12)}): ${inserted} rows inserted, ${rejected.length} rejected`,
+    );
+
+    return {
+      file: fileName,
+      fileHash,
+      sheet: parsed.sheet,
+      totalRows: parsed.rows.length,
+      unmappedHeaders: unmappedHeaders(parsed.headers, columns),
+      inserted,
+      rejected,
+      flights,
+    };
+  }
+
+  private async importFlight(
+    m: EntityManager,
+    flight: Flight,
+    rows: FdrRow[],
+    fileName: string,
+    fileHash: string,
+    userId: number | null,
+  ): Promise<ImportedFlight> {
+    const { flightNumber, date, registration } = flight;
+    const organizationId = flight.organizationId;
+    const flightId = flight.id;
+    const active = await m.findOne(ImportBatch, {
+      where: { flightId, status: 'active' },
+      lock: { mode: 'pessimistic_write' },
+    });
+
+    const result = { flightId, registration, flightNumber, date, organizationId };
+    if (active?.fileHash === fileHash) {
+      return { ...result, rows: active.rowCount, batchId: active.id, action: 'unchanged', qualityScore: active.qualityScore, route: null };
+    }
+
+    // hide whatever the flight had before, including rows imported before batches
+    // existed; the replaced batch's rows stay for rollback to restore
+    await m.softDelete(FdrRecord, { flightId });
+    if (active) await m.update(ImportBatch, { id: active.id }, { status: 'replaced' });
+    // exceedances found in the old rows; POST /pilot/events/run finds the new ones
+    await m.delete(FlightEvent, { flightId });
+
+    const batch = await m.save(
+      m.create(ImportBatch, {
+        fileHash,
+        fileName,
+        flightNumber,
+        date,
+        flightId,
+        organizationId,
+        rowCount: rows.length,
+        status: 'active',
+        createdBy: userId,
+      }),
+    );
+    for (let i = 0; i < rows.length; i += BATCH) {
+      await m.insert(
+        FdrRecord,
+        rows.slice(i, i + BATCH).map((r) => ({ ...r, batchId: batch.id, organizationId, flightId })),
+      );
+    }
+
+    return {
+      ...result,
+      rows: rows.length,
+      batchId: batch.id,
+      action: active ? 'replaced' : 'created',
+      qualityScore: null,
+      route: null,
+    };
+  }
+
+  /** Scores the committed rows of an imported flight and keeps the score on its batch. */
+  private async score(f: ImportedFlight): Promise<number> {
+    const { score } = await this.pilot.flightQuality({ ...f, id: f.flightId });
+    await this.batches.update({ id: f.batchId }, { qualityScore: score });
+    return score;
+  }
+
+  async history(filter: { flightNumber?: string; date?: number }, scope: OrgScope) {
+    const where: FindOptionsWhere<ImportBatch> = {};
+    if (scope !== null) where.organizationId = scope;
+    if (filter.flightNumber) where.flightNumber = filter.flightNumber.trim();
+    if (filter.date != null) where.date = filter.date;
+    return this.batches.find({ where, order: { id: 'DESC' }, take: 500 });
+  }
+
+  /**
+   * Remove the rows a batch created. Only the active batch of a flight can be
+   * rolled back; the batch it replaced becomes active again, with its rows.
+   */
+  async rollback(id: number, scope: OrgScope): Promise<ImportBatch> {
+    const batch = await this.repo.manager.transaction(async (m) => {
+      const batch = await m.findOne(ImportBatch, {
+        where: scope === null ? { id } : { id, organizationId: scope },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!batch) throw new NotFoundException('Import batch not found');
+      if (batch.status !== 'active') {
+        throw new BadRequestException(`Batch is ${batch.status}; only the active batch can be rolled back`);
+      }
+
+      const { affected } = await m.delete(FdrRecord, { batchId: id });
+      batch.status = 'rolled_back';
+      batch.rolledBackAt = new Date();
+      await m.save(batch);
+
+      const previous =
+        batch.flightId == null
+          ? null
+          : await m.findOne(ImportBatch, {
+              where: { flightId: batch.flightId, status: 'replaced' },
+              order: { id: 'DESC' },
+              lock: { mode: 'pessimistic_write' },
+            });
+      if (previous) {
+        await m.restore(FdrRecord, { batchId: previous.id });
+        await m.update(ImportBatch, { id: previous.id }, { status: 'active' });
+      }
+      if (batch.flightId != null) await m.delete(FlightEvent, { flightId: batch.flightId });
+      this.log.log(
+        `rollback batch ${id} (${batch.flightNumber}:${batch.date}): ${affected ?? 0} rows removed` +
+          (previous ? `, batch ${previous.id} restored` : ''),
+      );
+      return batch;
+    });
+    const flight = batch.flightId == null ? null : await this.repo.manager.findOne(Flight, { where: { id: batch.flightId } });
+    if (flight) {
+      this.pilot.forgetFlight(flight);
+      await this.pilot.matchAirports(flight);
+    }
+    return batch;
+  }
+}
@@ -0,0 +1,9 @@
+// src/organizations/dto/create-organization.dto.ts
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateOrganizationDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
@@ -0,0 +1,18 @@
+// src/organizations/org-scope.ts
+import { ForbiddenException } from '@nestjs/common';
+import type { AuthUser } from '../auth/current-user.decorator';
+
+/** Organization whose data a caller may see; null means every organization. */
+export type OrgScope = number | null;
+
+// staff role that works across organizations
+export const CROSS_ORG_ROLE = 'superadmin';
+
+export function orgScope(user: AuthUser | undefined): OrgScope {
+  if (user?.role === CROSS_ORG_ROLE) return null;
+  if (user?.organizationId == null) throw new ForbiddenException('Not a member of any organization');
+  return user.organizationId;
+}
+
+/** Whether a caller scoped to `scope` may see data owned by `orgId`. */
+export const inScope = (scope: OrgScope, orgId: number | null | undefined) => scope === null || scope === orgId;
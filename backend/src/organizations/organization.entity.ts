@@ -0,0 +1,15 @@
+// src/organizations/organization.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn } from 'typeorm';
+
+// An operator sharing the deployment; users, imports and flights belong to one.
+@Entity('organizations')
+export class Organization {
+  @PrimaryGeneratedColumn() id: number;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+}
@@ -0,0 +1,36 @@
+// src/organizations/organizations.controller.ts
+import { Body, Controller, Get, Param, ParseIntPipe, Post, UseGuards } from '@nestjs/common';
+import { OrganizationsService } from './organizations.service';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+// tenants are managed by our own staff; members are assigned through PATCH /users/:id
+@Controller('organizations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('superadmin')
+export class OrganizationsController {
+  constructor(private readonly orgs: OrganizationsService) {}
+
+  @Get()
+  findAll() {
+    return this.orgs.findAll();
+  }
+
+  @Post()
+  create(@Body() dto: CreateOrganizationDto) {
+    return this.orgs.create(dto);
+  }
+
+  @Get(':id')
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.orgs.findOne(id);
+  }
+
+  @Get(':id/members')
+  async members(@Param('id', ParseIntPipe) id: number) {
+    await this.orgs.findOne(id);
+    return this.orgs.members(id);
+  }
+}
@@ -0,0 +1,14 @@
+// src/organizations/organizations.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Organization } from './organization.entity';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationsController } from './organizations.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Organization])],
+  providers: [OrganizationsService],
+  controllers: [OrganizationsController],
+  exports: [OrganizationsService],
+})
+export class OrganizationsModule {}
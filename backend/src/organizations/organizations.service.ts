@@ -0,0 +1,52 @@
+// src/organizations/organizations.service.ts
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Not, Repository } from 'typeorm';
+import { Organization } from './organization.entity';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { CROSS_ORG_ROLE } from './org-scope';
+import { User } from '../users/user.entity';
+import { FdrRecord } from '../pilot/fdr-record.entity';
+import { ImportBatch } from '../import/import-batch.entity';
+import { FlightEvent } from '../events/flight-event.entity';
+
+@Injectable()
+export class OrganizationsService implements OnModuleInit {
+  private log = new Logger(OrganizationsService.name);
+
+  constructor(@InjectRepository(Organization) private readonly orgs: Repository<Organization>) {}
+
+  // first start with organizations: everything recorded so far belongs to one default org
+  async onModuleInit() {
+    if ((await this.orgs.count()) > 0) return;
+    const org = await this.orgs.save(this.orgs.create({ name: process.env.DEFAULT_ORG_NAME || 'Default' }));
+
+    const m = this.orgs.manager;
+    const set = { organizationId: org.id };
+    await m.update(User, { organizationId: IsNull(), role: Not(CROSS_ORG_ROLE) }, set);
+    await m.update(FdrRecord, { organizationId: IsNull() }, set);
+    await m.update(ImportBatch, { organizationId: IsNull() }, set);
+    await m.update(FlightEvent, { organizationId: IsNull() }, set);
+    this.log.log(`created organization "${org.name}" (${org.id}) for existing data`);
+  }
+
+  findAll() {
+    return this.orgs.find({ order: { name: 'ASC' } });
+  }
+
+  async findOne(id: number) {
+    const org = await this.orgs.findOne({ where: { id } });
+    if (!org) throw new NotFoundException('Organization not found');
+    return org;
+  }
+
+  async create(dto: CreateOrganizationDto) {
+    const name = dto.name.trim();
+    if (await this.orgs.exists({ where: { name } })) throw new BadRequestException('Organization name already in use');
+    return this.orgs.save(this.orgs.create({ name }));
+  }
+
+  members(id: number) {
+    return this.orgs.manager.find(User, { where: { organizationId: id }, order: { name: 'ASC' } });
+  }
+}
@@ -0,0 +1,76 @@
+// src/parameters/builtin-parameters.ts
+
+export const PARAMETER_TYPES = ['float', 'integer', 'boolean'] as const;
+export type ParameterType = (typeof PARAMETER_TYPES)[number];
+
+/** A recorded FDR parameter as the registry describes it. */
+export type ParameterDefinition = {
+  name: string;
+  label: string;
+  unit: string | null;
+  type: ParameterType; // how the importer reads it; boolean is 1/0 (see to01)
+  min: number | null; // valid range: values outside it are recorder or import faults
+  max: number | null;
+  aliases: readonly string[]; // import sheet headers it is found under
+};
+
+// The parameters fdr_records has a column for, seeded into the registry at
+// startup. Anything registered later is stored in fdr_records.extra.
+export const BUILTIN_PARAMETERS = [
+  {
+    name: 'pressureAltitude',
+    label: 'Pressure altitude',
+    unit: 'ft',
+    type: 'integer',
+    min: -2000,
+    max: 60_000,
+    aliases: ['Pressure Altitude (feet)'],
+  },
+  { name: 'pitchAngle', label: 'Pitch', unit: 'deg', type: 'integer', min: -90, max: 90, aliases: ['Pitch Angle (Deg.)'] },
+  { name: 'rollAngle', label: 'Roll', unit: 'deg', type: 'integer', min: -180, max: 180, aliases: ['Roll Angle (degs.)'] },
+  {
+    name: 'magHeading',
+    label: 'Magnetic heading',
+    unit: 'deg',
+    type: 'integer',
+    min: 0,
+    max: 360,
+    aliases: ['Mag Heading (degs.)'],
+  },
+  {
+    name: 'computedAirspeed',
+    label: 'Computed airspeed',
+    unit: 'kt',
+    type: 'integer',
+    min: 0,
+    max: 600,
+    aliases: ['Computed Airspeed (knots)'],
+  },
+  {
+    name: 'verticalSpeed',
+    label: 'Vertical speed',
+    unit: 'ft/min',
+    type: 'integer',
+    min: -20_000,
+    max: 20_000,
+    aliases: ['Vertical Speed (ft/min)'],
+  },
+  { name: 'latitude', label: 'Latitude', unit: 'deg', type: 'float', min: -90, max: 90, aliases: ['Latitude (degrees)'] },
+  { name: 'longitude', label: 'Longitude', unit: 'deg', type: 'float', min: -180, max: 180, aliases: ['Longitude (degrees)'] },
+  {
+    name: 'flapPosition',
+    label: 'Flap position',
+    unit: 'deg',
+    type: 'integer',
+    min: 0,
+    max: 60,
+    aliases: ['Flap Position (degrees)'],
+  },
+  { name: 'gearSelectionUp', label: 'Gear selected up', unit: null, type: 'boolean', min: 0, max: 1, aliases: ['Gear Selection Up'] },
+  { name: 'ap1Engaged', label: 'Autopilot 1 engaged', unit: null, type: 'boolean', min: 0, max: 1, aliases: ['A/P 1 Engaged'] },
+  { name: 'ap2Engaged', label: 'Autopilot 2 engaged', unit: null, type: 'boolean', min: 0, max: 1, aliases: ['A/P 2 Engaged'] },
+  // 1 = air, 0 = ground
+  { name: 'airGround', label: 'Air/ground', unit: null, type: 'boolean', min: 0, max: 1, aliases: ['Air/Ground'] },
+] as const satisfies readonly ParameterDefinition[];
+
+export type BuiltinParameter = (typeof BUILTIN_PARAMETERS)[number]['name'];
@@ -0,0 +1,31 @@
+// src/parameters/dto/create-parameter.dto.ts
+import {
+  ArrayMinSize, ArrayUnique, IsArray, IsIn, IsNotEmpty, IsNumber, IsOptional, IsString, Matches, MaxLength,
+} from 'class-validator';
+import { PARAMETER_TYPES, ParameterType } from '../builtin-parameters';
+
+export class CreateParameterDto {
+  @IsString()
+  @Matches(/^[a-z][A-Za-z0-9]{1,63}$/, { message: 'name must be camelCase, e.g. engine1N1' })
+  name: string;
+
+  @IsString() @IsNotEmpty() @MaxLength(120)
+  label: string;
+
+  @IsOptional() @IsString() @MaxLength(32)
+  unit?: string;
+
+  @IsIn(PARAMETER_TYPES)
+  type: ParameterType;
+
+  @IsOptional() @IsNumber()
+  min?: number;
+
+  @IsOptional() @IsNumber()
+  max?: number;
+
+  // import sheet headers, e.g. ["Eng 1 N1 (%)", "N1 ENG1"]
+  @IsArray() @ArrayMinSize(1) @ArrayUnique()
+  @IsString({ each: true }) @IsNotEmpty({ each: true }) @MaxLength(120, { each: true })
+  aliases: string[];
+}
@@ -0,0 +1,23 @@
+// src/parameters/dto/update-parameter.dto.ts
+import {
+  ArrayMinSize, ArrayUnique, IsArray, IsNotEmpty, IsNumber, IsOptional, IsString, MaxLength,
+} from 'class-validator';
+
+// name and type say where and how values are stored, so they cannot be changed
+export class UpdateParameterDto {
+  @IsOptional() @IsString() @IsNotEmpty() @MaxLength(120)
+  label?: string;
+
+  @IsOptional() @IsString() @MaxLength(32)
+  unit?: string | null;
+
+  @IsOptional() @IsNumber()
+  min?: number | null;
+
+  @IsOptional() @IsNumber()
+  max?: number | null;
+
+  @IsOptional() @IsArray() @ArrayMinSize(1) @ArrayUnique()
+  @IsString({ each: true }) @IsNotEmpty({ each: true }) @MaxLength(120, { each: true })
+  aliases?: string[];
+}
@@ -0,0 +1,40 @@
+// src/parameters/fdr-parameter.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn } from 'typeorm';
+import type { ParameterType } from './builtin-parameters';
+
+// One entry of the parameter registry, shared by every organization.
+@Entity('fdr_parameters')
+export class FdrParameter {
+  @PrimaryGeneratedColumn() id: number;
+
+  // key in ticks, series and fdr_records.extra, e.g. "engine1N1"
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 120 })
+  label: string;
+
+  @Column({ type: 'varchar', length: 32, nullable: true })
+  unit: string | null;
+
+  @Column({ type: 'varchar', length: 16 })
+  type: ParameterType;
+
+  @Column({ name: 'min_value', type: 'double', nullable: true })
+  min: number | null;
+
+  @Column({ name: 'max_value', type: 'double', nullable: true })
+  max: number | null;
+
+  // import sheet headers, matched exactly
+  @Column({ type: 'json' })
+  aliases: string[];
+
+  // stored in a column of its own rather than in fdr_records.extra
+  @Column({ name: 'built_in', type: 'boolean', default: false })
+  builtIn: boolean;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+}
@@ -0,0 +1,33 @@
+// src/parameters/parameters.controller.ts
+import { Body, Controller, Get, Param, Patch, Post, UseGuards } from '@nestjs/common';
+import { ParametersService } from './parameters.service';
+import { CreateParameterDto } from './dto/create-parameter.dto';
+import { UpdateParameterDto } from './dto/update-parameter.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('pilot/parameters')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'pilot', 'viewer')
+export class ParametersController {
+  constructor(private readonly parameters: ParametersService) {}
+
+  @Get()
+  list() {
+    return { parameters: this.parameters.describe() };
+  }
+
+  // the registry is shared by every organization, so only our own staff change it
+  @Roles('superadmin')
+  @Post()
+  create(@Body() dto: CreateParameterDto) {
+    return this.parameters.create(dto);
+  }
+
+  @Roles('superadmin')
+  @Patch(':name')
+  update(@Param('name') name: string, @Body() dto: UpdateParameterDto) {
+    return this.parameters.update(name, dto);
+  }
+}
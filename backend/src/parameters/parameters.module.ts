@@ -0,0 +1,14 @@
+// src/parameters/parameters.module.ts
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FdrParameter } from './fdr-parameter.entity';
+import { ParametersService } from './parameters.service';
+import { ParametersController } from './parameters.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([FdrParameter])],
+  providers: [ParametersService],
+  controllers: [ParametersController],
+  exports: [ParametersService],
+})
+export class ParametersModule {}
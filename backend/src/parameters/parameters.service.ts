@@ -0,0 +1,143 @@
+// src/parameters/parameters.service.ts
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { FdrParameter } from './fdr-parameter.entity';
+import { BUILTIN_PARAMETERS, ParameterType } from './builtin-parameters';
+import { CreateParameterDto } from './dto/create-parameter.dto';
+import { UpdateParameterDto } from './dto/update-parameter.dto';
+import { DERIVED_INFO, DERIVED_PARAMETERS } from '../pilot/derived';
+import { UnitPlan, unitPlan, UnitProfile } from './units';
+
+/** One parameter as GET /pilot/parameters lists it. */
+export type ParameterInfo = {
+  name: string;
+  label: string;
+  unit: string | null;
+  type: ParameterType;
+  min: number | null;
+  max: number | null;
+  // recorded: imported, from a column or fdr_records.extra; derived: computed on request
+  source: 'recorded' | 'derived';
+};
+
+// tick and row fields a registered parameter must not shadow
+const RESERVED = new Set<string>([
+  'id', 'ts', 'utcTime', 'fdrTime', 'date', 'flightNumber', 'phase', 'extra',
+  'batchId', 'organizationId', 'flightId',
+  ...DERIVED_PARAMETERS,
+]);
+
+/**
+ * The registry of recorded FDR parameters. Built-ins are seeded from
+ * BUILTIN_PARAMETERS; parameters registered later need no schema change, as
+ * their values go to fdr_records.extra. Kept in memory: the importer reads it
+ * for every row.
+ */
+@Injectable()
+export class ParametersService implements OnModuleInit {
+  private log = new Logger(ParametersService.name);
+  private registry: FdrParameter[] = [];
+
+  constructor(@InjectRepository(FdrParameter) private readonly repo: Repository<FdrParameter>) {}
+
+  async onModuleInit() {
+    const known = new Set((await this.repo.find({ select: ['name'] })).map((p) => p.name));
+    const missing = BUILTIN_PARAMETERS.filter((p) => !known.has(p.name));
+    if (missing.length) {
+      await this.repo.save(missing.map((p) => this.repo.create({ ...p, aliases: [...p.aliases], builtIn: true })));
+      this.log.log(`seeded ${missing.length} built-in parameters`);
+    }
+    await this.reload();
+  }
+
+  private async reload() {
+    this.registry = await this.repo.find({ order: { builtIn: 'DESC', id: 'ASC' } });
+  }
+
+  /** Every registered parameter, built-ins first. */
+  list(): FdrParameter[] {
+    return this.registry;
+  }
+
+  /** Names of the parameters kept in fdr_records.extra. */
+  extraNames(): string[] {
+    return this.registry.filter((p) => !p.builtIn).map((p) => p.name);
+  }
+
+  /** Recorded parameters, then the derived ones, for clients that chart generically. */
+  describe(): ParameterInfo[] {
+    const recorded = this.registry.map(({ name, label, unit, type, min, max }): ParameterInfo => (
+      { name, label, unit, type, min, max, source: 'recorded' }
+    ));
+    const derived = DERIVED_PARAMETERS.map((name): ParameterInfo => (
+      { name, ...DERIVED_INFO[name], type: 'float', min: null, max: null, source: 'derived' }
+    ));
+    return [...recorded, ...derived];
+  }
+
+  /**
+   * How to convert every parameter, recorded or derived, to `profile`. A
+   * `strict` plan refuses overrides that do not apply; a saved profile is not
+   * strict, as the registry may have changed since it was saved.
+   */
+  unitPlan(profile: UnitProfile, strict = true): UnitPlan {
+    const stored = Object.fromEntries(this.describe().map((p) => [p.name, p.unit]));
+    return unitPlan(stored, profile, strict ? (message) => { throw new BadRequestException(message); } : undefined);
+  }
+
+  async create(dto: CreateParameterDto): Promise<FdrParameter> {
+    if (RESERVED.has(dto.name) || this.registry.some((p) => p.name === dto.name)) {
+      throw new ConflictException(`Parameter name ${dto.name} is taken`);
+    }
+    this.assertRange(dto.min, dto.max);
+    this.assertAliasesFree(dto.aliases);
+
+    const saved = await this.repo.save(
+      this.repo.create({
+        name: dto.name,
+        label: dto.label.trim(),
+        unit: dto.unit?.trim() || null,
+        type: dto.type,
+        min: dto.min ?? null,
+        max: dto.max ?? null,
+        aliases: dto.aliases.map((a) => a.trim()),
+        builtIn: false,
+      }),
+    );
+    await this.reload();
+    this.log.log(`registered parameter ${saved.name}`);
+    return saved;
+  }
+
+  async update(name: string, dto: UpdateParameterDto): Promise<FdrParameter> {
+    const param = await this.repo.findOne({ where: { name } });
+    if (!param) throw new NotFoundException('Parameter not found');
+    if (dto.aliases) this.assertAliasesFree(dto.aliases, name);
+
+    if (dto.label !== undefined) param.label = dto.label.trim();
+    if (dto.unit !== undefined) param.unit = dto.unit?.trim() || null;
+    if (dto.min !== undefined) param.min = dto.min;
+    if (dto.max !== undefined) param.max = dto.max;
+    if (dto.aliases) param.aliases = dto.aliases.map((a) => a.trim());
+    this.assertRange(param.min, param.max);
+
+    const saved = await this.repo.save(param);
+    await this.reload();
+    return saved;
+  }
+
+  private assertRange(min?: number | null, max?: number | null) {
+    if (min != null && max != null && min > max) throw new BadRequestException('min must not be above max');
+  }
+
+  // one header feeds one parameter, or the importer could not tell where it goes
+  private assertAliasesFree(aliases: string[], except?: string) {
+    const taken = new Map<string, string>();
+    for (const p of this.registry) {
+      if (p.name !== except) for (const a of p.aliases) taken.set(a.trim().toLowerCase(), p.name);
+    }
+    const clash = aliases.find((a) => taken.has(a.trim().toLowerCase()));
+    if (clash) throw new ConflictException(`Header "${clash.trim()}" already maps to ${taken.get(clash.trim().toLowerCase())}`);
+  }
+}
@@ -0,0 +1,43 @@
+import { convertTick, requestedProfile, unitPlan } from './units';
+
+const STORED = { pressureAltitude: 'ft', computedAirspeed: 'kt', magHeading: 'deg', fuelFlow: 'lb/h', airGround: null };
+
+describe('unitPlan', () => {
+  it('converts each parameter to its system unit and names them all', () => {
+    const plan = unitPlan(STORED, { system: 'metric' });
+    expect(plan.units).toEqual({ pressureAltitude: 'm', computedAirspeed: 'km/h', magHeading: 'deg', fuelFlow: 'kg/h', airGround: null });
+
+    const tick = { ts: 0, pressureAltitude: 35000, computedAirspeed: 250, magHeading: 90, airGround: 1, extra: { fuelFlow: 5000 } };
+    expect(convertTick(tick, plan)).toEqual({
+      ts: 0,
+      pressureAltitude: 10668,
+      computedAirspeed: 463,
+      magHeading: 90,
+      airGround: 1,
+      extra: { fuelFlow: 2267.962 },
+    });
+    expect(tick.pressureAltitude).toBe(35000);
+    expect(convertTick(tick, unitPlan(STORED, { system: 'imperial' }))).toBe(tick);
+  });
+
+  it('applies overrides and refuses those that can not apply', () => {
+    const plan = unitPlan(STORED, { system: 'si', overrides: { pressureAltitude: 'ft', magHeading: 'rad' } });
+    expect(plan.units).toMatchObject({ pressureAltitude: 'ft', computedAirspeed: 'm/s', magHeading: 'rad' });
+    expect(plan.factors.pressureAltitude).toBeUndefined();
+
+    const invalid = jest.fn();
+    unitPlan(STORED, { system: 'si', overrides: { pressureAltitude: 'kt', flux: 'm', airGround: 'm' } }, invalid);
+    expect(invalid).toHaveBeenCalledTimes(3);
+  });
+
+  it('takes what a request names over the saved profile', () => {
+    const saved = { system: 'metric' as const, overrides: { pressureAltitude: 'ft' } };
+    expect(requestedProfile({}, saved)).toBe(saved);
+    expect(requestedProfile({ units: 'si' }, saved)).toEqual({ system: 'si', overrides: {} });
+    expect(requestedProfile({ unitOverrides: { computedAirspeed: 'kt' } }, saved)).toEqual({
+      system: 'metric',
+      overrides: { computedAirspeed: 'kt' },
+    });
+    expect(requestedProfile({}, null)).toEqual({ system: 'imperial' });
+  });
+});
@@ -0,0 +1,122 @@
+// src/parameters/units.ts
+// Unit conversion for what the API sends. Values are stored in the units the
+// registry records (aviation practice: ft, kt, ft/min, nm); a response
+// converts them to the caller's profile and names the units it used.
+
+export const UNIT_SYSTEMS = ['imperial', 'metric', 'si'] as const;
+export type UnitSystem = (typeof UNIT_SYSTEMS)[number];
+
+/** A unit system, with per-parameter exceptions, e.g. { pressureAltitude: 'ft' } in a metric profile. */
+export type UnitProfile = { system: UnitSystem; overrides?: Record<string, string> };
+
+/** What a request may say about units; unset fields fall back to the user's saved profile. */
+export type UnitQuery = { units?: UnitSystem; unitOverrides?: Record<string, string> };
+
+export const DEFAULT_UNIT_PROFILE: UnitProfile = { system: 'imperial' };
+
+// size of each unit in its dimension's SI unit; every conversion is a plain factor
+const UNITS: Record<string, { dimension: string; size: number }> = {
+  m: { dimension: 'length', size: 1 },
+  km: { dimension: 'length', size: 1000 },
+  ft: { dimension: 'length', size: 0.3048 },
+  nm: { dimension: 'length', size: 1852 },
+  'm/s': { dimension: 'speed', size: 1 },
+  'km/h': { dimension: 'speed', size: 1 / 3.6 },
+  kt: { dimension: 'speed', size: 1852 / 3600 },
+  'ft/min': { dimension: 'speed', size: 0.3048 / 60 },
+  rad: { dimension: 'angle', size: 1 },
+  deg: { dimension: 'angle', size: Math.PI / 180 },
+  'rad/s': { dimension: 'angularRate', size: 1 },
+  'deg/s': { dimension: 'angularRate', size: Math.PI / 180 },
+  kg: { dimension: 'mass', size: 1 },
+  lb: { dimension: 'mass', size: 0.45359237 },
+  'kg/s': { dimension: 'massFlow', size: 1 },
+  'kg/h': { dimension: 'massFlow', size: 1 / 3600 },
+  'lb/h': { dimension: 'massFlow', size: 0.45359237 / 3600 },
+};
+export const UNIT_NAMES = Object.keys(UNITS);
+
+// what each system makes of a stored unit; units not listed are kept. Angles
+// stay in degrees everywhere: coordinates and headings in radians help nobody.
+const SYSTEM_UNITS: Record<UnitSystem, Record<string, string>> = {
+  imperial: { m: 'ft', km: 'nm', 'km/h': 'kt', kg: 'lb', 'kg/h': 'lb/h', 'kg/s': 'lb/h' },
+  metric: { ft: 'm', nm: 'km', kt: 'km/h', 'ft/min': 'm/s', lb: 'kg', 'lb/h': 'kg/h' },
+  si: { ft: 'm', km: 'm', nm: 'm', kt: 'm/s', 'km/h': 'm/s', 'ft/min': 'm/s', lb: 'kg', 'lb/h': 'kg/s', 'kg/h': 'kg/s' },
+};
+
+export const convertible = (from: string | null, to: string) =>
+  from != null && UNITS[from] != null && UNITS[from].dimension === UNITS[to]?.dimension;
+
+/** How one response converts: the unit of every parameter, and factors for those that change. */
+export type UnitPlan = {
+  system: UnitSystem;
+  units: Record<string, string | null>; // null: unitless, e.g. the discrete flags
+  factors: Record<string, number>;
+};
+
+/**
+ * The plan for `profile` over parameters stored in `stored` units. An
+ * override naming an unknown parameter or a unit of another dimension is
+ * reported through `invalid`, or skipped without it.
+ */
+export function unitPlan(
+  stored: Record<string, string | null>,
+  profile: UnitProfile,
+  invalid?: (message: string) => void,
+): UnitPlan {
+  const plan: UnitPlan = { system: profile.system, units: {}, factors: {} };
+  for (const [name, from] of Object.entries(stored)) {
+    const to = (from != null && SYSTEM_UNITS[profile.system][from]) || from;
+    plan.units[name] = to;
+    if (to !== from) plan.factors[name] = UNITS[from!].size / UNITS[to!].size;
+  }
+  for (const [name, to] of Object.entries(profile.overrides ?? {})) {
+    if (!Object.hasOwn(stored, name)) {
+      invalid?.(`Unknown parameter ${name}`);
+      continue;
+    }
+    const from = stored[name];
+    if (!convertible(from, to)) {
+      invalid?.(`${name} is recorded in ${from ?? 'no unit'} and can not be given in ${to}`);
+      continue;
+    }
+    plan.units[name] = to;
+    if (to === from) delete plan.factors[name];
+    else plan.factors[name] = UNITS[from!].size / UNITS[to].size;
+  }
+  return plan;
+}
+
+/** The profile a request asks for; a request naming no units keeps the saved one. */
+export function requestedProfile(q: UnitQuery, saved?: UnitProfile | null): UnitProfile {
+  const base = saved ?? DEFAULT_UNIT_PROFILE;
+  if (q.units == null && q.unitOverrides == null) return base;
+  // a system asked for outright replaces the saved overrides, not just the saved system
+  return { system: q.units ?? base.system, overrides: q.unitOverrides ?? (q.units ? {} : base.overrides) };
+}
+
+// converted values keep 7 significant digits, well within any recorder's resolution
+const scale = (v: number, factor: number) => Number((v * factor).toPrecision(7));
+
+export const convertValue = (v: number | null | undefined, factor = 1) =>
+  v == null ? null : factor === 1 ? v : scale(v, factor);
+
+/** `tick` in the plan's units: a copy when anything changes, the tick itself when not. */
+export function convertTick<T extends { extra?: Record<string, number> }>(tick: T, plan: UnitPlan): T {
+  let out: T | null = null;
+  for (const [name, factor] of Object.entries(plan.factors)) {
+    const v = (tick as Record<string, unknown>)[name];
+    if (typeof v === 'number') {
+      out ??= { ...tick };
+      (out as Record<string, unknown>)[name] = scale(v, factor);
+    } else if (tick.extra?.[name] != null) {
+      out ??= { ...tick };
+      out.extra = { ...out.extra, [name]: scale(tick.extra[name], factor) };
+    }
+  }
+  return out ?? tick;
+}
+
+export function convertTicks<T extends { extra?: Record<string, number> }>(ticks: T[], plan: UnitPlan): T[] {
+  return Object.keys(plan.factors).length ? ticks.map((t) => convertTick(t, plan)) : ticks;
+}
@@ -0,0 +1,66 @@
+import { analyzeQuality, maskBadSamples, QualityTick } from './data-quality';
+
+const T0 = Date.UTC(2025, 2, 24, 10, 0, 0);
+
+// 1 Hz, airborne, 300 kt due east along the equator
+function flight(secs = 300): QualityTick[] {
+  return Array.from({ length: secs }, (_, s) => ({
+    ts: T0 + s * 1000,
+    latitude: 0,
+    longitude: s * 0.0013888,
+    pressureAltitude: 5000 + s * 10,
+    pitchAngle: 3,
+    rollAngle: 0,
+    magHeading: 90,
+    computedAirspeed: 250,
+    verticalSpeed: 600,
+    flapPosition: 0,
+    gearSelectionUp: 1,
+    ap1Engaged: 1,
+    ap2Engaged: 0,
+    airGround: 1,
+  }));
+}
+
+describe('data quality', () => {
+  it('scores a clean flight 100', () => {
+    expect(analyzeQuality(flight())).toMatchObject({ score: 100, ticks: 300, issues: [] });
+  });
+
+  it('flags out-of-range values and masks them', () => {
+    const ticks = flight();
+    ticks[10] = { ...ticks[10], rollAngle: 400 };
+    ticks[20] = { ...ticks[20], computedAirspeed: -5 };
+    const { issues, score } = analyzeQuality(ticks);
+    expect(issues).toEqual([
+      expect.objectContaining({ type: 'outOfRange', parameter: 'rollAngle', startIdx: 10, endIdx: 10, samples: 1 }),
+      expect.objectContaining({ type: 'outOfRange', parameter: 'computedAirspeed', startIdx: 20, endIdx: 20 }),
+    ]);
+    expect(score).toBeLessThan(100);
+
+    const masked = maskBadSamples(ticks);
+    expect(masked[10].rollAngle).toBeNull();
+    expect(masked[20].computedAirspeed).toBeNull();
+    expect(masked[11]).toBe(ticks[11]);
+  });
+
+  it('masks a position spike the track comes back from', () => {
+    const ticks = flight();
+    ticks[50] = { ...ticks[50], latitude: 5 };
+    const [jump] = analyzeQuality(ticks).issues;
+    expect(jump).toMatchObject({ type: 'positionJump', parameter: 'position', startIdx: 50, endIdx: 50, masked: true });
+    expect(maskBadSamples(ticks)[50]).toMatchObject({ latitude: null, longitude: null });
+  });
+
+  it('finds a frozen position, recording gaps and repeated frames', () => {
+    const ticks = flight().map((t, i) => (i >= 100 && i < 160 ? { ...t, longitude: 100 * 0.0013888 } : t));
+    // the track resumes where the aircraft is, 60 s further on
+    ticks.splice(200, 10);
+    const { issues } = analyzeQuality(ticks, [T0 + 30_000, T0 + 31_000]);
+    expect(issues.map((x) => [x.type, x.parameter, x.startIdx, x.endIdx])).toEqual([
+      ['duplicateTimestamp', null, 30, 31],
+      ['frozen', 'position', 101, 159],
+      ['gap', null, 199, 200],
+    ]);
+  });
+});
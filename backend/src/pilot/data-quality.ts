@@ -0,0 +1,216 @@
+// Data-quality checks over a flight's ticks. Imported FDR data carries GPS
+// position jumps, frozen and out-of-range values, recording gaps and repeated
+// frames; the report locates each, and replays may mask the bad samples.
+import { greatCircleM, MAX_PLAUSIBLE_KT } from './derived';
+import { BUILTIN_PARAMETERS, BuiltinParameter } from '../parameters/builtin-parameters';
+
+export const QUALITY_ISSUE_TYPES = ['positionJump', 'frozen', 'outOfRange', 'duplicateTimestamp', 'gap', 'missing'] as const;
+export type QualityIssueType = (typeof QUALITY_ISSUE_TYPES)[number];
+
+export const QUALITY_PARAMETERS: readonly BuiltinParameter[] = BUILTIN_PARAMETERS.map((p) => p.name);
+export type QualityParameter = BuiltinParameter;
+
+/** What the checks read; FdrTick has all of it. */
+export type QualityTick = { ts: number } & Record<QualityParameter, number | null>;
+
+export type QualityIssue = {
+  type: QualityIssueType;
+  // 'position': latitude and longitude together; null: whole frames (gaps, duplicates)
+  parameter: QualityParameter | 'position' | null;
+  startIdx: number;
+  endIdx: number; // inclusive
+  startTs: number;
+  endTs: number;
+  samples: number; // ticks affected; frames dropped for duplicateTimestamp
+  masked: boolean; // nulled in replays that ask for masking
+};
+
+export type QualityReport = {
+  score: number; // 0-100: share of clean samples, less the time lost to gaps
+  ticks: number;
+  duplicates: number;
+  issues: QualityIssue[];
+};
+
+// the registry's valid ranges; anything outside is a recorder or import fault
+const LIMITS = Object.fromEntries(BUILTIN_PARAMETERS.map((p) => [p.name, [p.min, p.max]])) as Record<
+  QualityParameter,
+  [number, number]
+>;
+
+// airborne values that hold still longer than this are stuck. Attitudes and
+// vertical speed legitimately sit on one integer value through a cruise.
+const FROZEN_MS: Partial<Record<QualityParameter | 'position', number>> = {
+  position: 30_000,
+  pressureAltitude: 900_000,
+  computedAirspeed: 900_000,
+};
+
+const GAP_MS = 5000; // no frames (or no value of a parameter) for longer is a missing block
+// a jump the track does not come back from within this is a real discontinuity, not a glitch
+const JUMP_SETTLE_MS = 30_000;
+const AIRBORNE_CAS = 60; // kt, only used when air/ground is not recorded
+const MS_TO_KT = 3600 / 1852;
+
+/** In the air by the air/ground discrete, or by airspeed where that is not recorded. */
+export const isAirborne = ({ airGround, computedAirspeed }: Pick<QualityTick, 'airGround' | 'computedAirspeed'>) =>
+  airGround === 1 || (airGround == null && (computedAirspeed ?? 0) >= AIRBORNE_CAS);
+
+/**
+ * Every issue found in `ticks`, in time order. `duplicates` are the ts of
+ * frames the timeline dropped as repeats, which the ticks no longer show.
+ */
+export function analyzeQuality(ticks: readonly QualityTick[], duplicates: readonly number[] = []): QualityReport {
+  const n = ticks.length;
+  if (!n) return { score: 0, ticks: 0, duplicates: duplicates.length, issues: [] };
+
+  const issues: QualityIssue[] = [];
+  const issue = (
+    type: QualityIssueType,
+    parameter: QualityIssue['parameter'],
+    a: number,
+    b: number,
+    samples: number,
+    masked: boolean,
+  ) => issues.push({ type, parameter, startIdx: a, endIdx: b, startTs: ticks[a].ts, endTs: ticks[b].ts, samples, masked });
+
+  // runs of ticks where `state` is true; null ticks neither extend nor end a run
+  const runs = (state: (i: number) => boolean | null, report: (a: number, b: number, count: number) => void) => {
+    let a = -1;
+    let b = -1;
+    let count = 0;
+    for (let i = 0; i <= n; i++) {
+      const s = i < n ? state(i) : false;
+      if (s === null) continue;
+      if (s) {
+        if (a < 0) [a, count] = [i, 0];
+        [b, count] = [i, count + 1];
+      } else if (a >= 0) {
+        report(a, b, count);
+        a = -1;
+      }
+    }
+  };
+
+  const value = (p: QualityParameter, i: number) => ticks[i][p];
+  const inRange = (p: QualityParameter, i: number) => {
+    const v = value(p, i);
+    return v != null && v >= LIMITS[p][0] && v <= LIMITS[p][1];
+  };
+  const fix = (i: number) => inRange('latitude', i) && inRange('longitude', i);
+  const airborne = (i: number) => isAirborne(ticks[i]);
+
+  for (const p of QUALITY_PARAMETERS) {
+    runs(
+      (i) => (value(p, i) == null ? null : !inRange(p, i)),
+      (a, b, count) => issue('outOfRange', p, a, b, count, true),
+    );
+  }
+
+  const stuck = new Uint8Array(n); // 1: a frozen position, no anchor for the jump check
+  for (const [parameter, limitMs] of Object.entries(FROZEN_MS) as [QualityParameter | 'position', number][]) {
+    const read = (i: number): string | number | null =>
+      parameter === 'position'
+        ? fix(i) ? `${ticks[i].latitude},${ticks[i].longitude}` : null
+        : inRange(parameter, i) ? value(parameter, i) : null;
+    // the first sample of a run is a real reading; the repeats after it are stuck
+    let a = -1;
+    let first = -1;
+    let last = -1;
+    let repeats = 0;
+    const close = () => {
+      if (!repeats || ticks[last].ts - ticks[a].ts < limitMs) return;
+      issue('frozen', parameter, first, last, repeats, true);
+      if (parameter === 'position') stuck.fill(1, first, last + 1);
+    };
+    for (let i = 0; i < n; i++) {
+      const v = read(i);
+      if (v == null) continue;
+      if (a >= 0 && airborne(i) && v === read(a)) {
+        if (!repeats++) first = i;
+        last = i;
+        continue;
+      }
+      close();
+      [a, repeats] = [airborne(i) ? i : -1, 0];
+    }
+    close();
+  }
+
+  // position jumps: fixes implausibly fast to reach from the last trusted one;
+  // a position catching up after a freeze is measured from where it froze
+  const plausible = (a: number, b: number) => {
+    const [ta, tb] = [ticks[a], ticks[b]];
+    const d = greatCircleM(ta.latitude!, ta.longitude!, tb.latitude!, tb.longitude!);
+    return (d / ((tb.ts - ta.ts) / 1000)) * MS_TO_KT <= MAX_PLAUSIBLE_KT;
+  };
+  let anchor = -1;
+  let jump = -1; // first fix of the open run away from the anchor
+  let lastJump = -1;
+  let jumped = 0;
+  for (let i = 0; i < n; i++) {
+    if (!fix(i) || stuck[i]) continue;
+    if (anchor < 0 || plausible(anchor, i)) {
+      if (jump >= 0) issue('positionJump', 'position', jump, lastJump, jumped, true);
+      [anchor, jump] = [i, -1];
+      continue;
+    }
+    if (jump < 0) [jump, jumped] = [i, 0];
+    [lastJump, jumped] = [i, jumped + 1];
+    if (ticks[i].ts - ticks[jump].ts > JUMP_SETTLE_MS) {
+      // the track stays over there: report the step, carry on from its far side
+      issue('positionJump', 'position', anchor, jump, 0, false);
+      [anchor, i, jump] = [jump, jump, -1];
+    }
+  }
+  if (jump >= 0) issue('positionJump', 'position', jump, lastJump, jumped, true);
+
+  for (let i = 1; i < n; i++) {
+    if (ticks[i].ts - ticks[i - 1].ts > GAP_MS) issue('gap', null, i - 1, i, 0, false);
+  }
+  const recorded = QUALITY_PARAMETERS.filter((p) => ticks.some((t) => t[p] != null));
+  for (const p of recorded) {
+    runs(
+      (i) => value(p, i) == null,
+      (a, b, count) => {
+        if (ticks[b].ts - ticks[a].ts >= GAP_MS) issue('missing', p, a, b, count, false);
+      },
+    );
+  }
+
+  // a dropped frame carries the ts of the frame it repeats; repeats in adjacent seconds are one issue
+  const idxOf = new Map(ticks.map((t, i) => [t.ts, i]));
+  const dups = [...duplicates].sort((x, y) => x - y);
+  for (let a = 0, b = 0; a < dups.length; a = ++b) {
+    while (b + 1 < dups.length && dups[b + 1] - dups[b] <= 1000) b++;
+    issue('duplicateTimestamp', null, idxOf.get(dups[a]) ?? 0, idxOf.get(dups[b]) ?? n - 1, b - a + 1, false);
+  }
+
+  issues.sort((x, y) => x.startTs - y.startTs || x.endTs - y.endTs);
+
+  const cells = n * recorded.length + dups.length;
+  const bad = issues.reduce((sum, x) => sum + (x.parameter === 'position' ? 2 : 1) * x.samples, 0);
+  const span = ticks[n - 1].ts - ticks[0].ts;
+  const lost = issues.filter((x) => x.type === 'gap').reduce((sum, x) => sum + x.endTs - x.startTs, 0);
+  const clean = (cells ? 1 - bad / cells : 1) * (span ? 1 - lost / span : 1);
+  return { score: Math.round(Math.max(0, clean) * 1000) / 10, ticks: n, duplicates: dups.length, issues };
+}
+
+// one masked copy per loaded flight array, dropped with it
+const maskedCopies = new WeakMap<readonly QualityTick[], QualityTick[]>();
+
+/** `ticks` with every masked issue's samples set to null; clean ticks are shared, not copied. */
+export function maskBadSamples<T extends QualityTick>(ticks: readonly T[]): T[] {
+  const hit = maskedCopies.get(ticks);
+  if (hit) return hit as T[];
+
+  const out = [...ticks];
+  for (const x of analyzeQuality(ticks).issues) {
+    if (!x.masked || !x.parameter) continue;
+    const fields: QualityParameter[] = x.parameter === 'position' ? ['latitude', 'longitude'] : [x.parameter];
+    const nulls = Object.fromEntries(fields.map((f) => [f, null]));
+    for (let i = x.startIdx; i <= x.endIdx; i++) out[i] = { ...out[i], ...nulls };
+  }
+  maskedCopies.set(ticks, out);
+  return out;
+}
@@ -0,0 +1,46 @@
+import { derivedTable, trueAirspeedKt, withDerived, DerivableTick } from './derived';
+
+const T0 = Date.UTC(2025, 2, 24, 10, 0, 0);
+// 300 kt due east along the equator: 1852 m per nm, 111_195 m per degree
+const LON_PER_SEC = (300 * 1852) / 3600 / 111_194.93;
+
+function tick(sec: number, over: Partial<DerivableTick> = {}): DerivableTick {
+  return {
+    ts: T0 + sec * 1000,
+    latitude: 0,
+    longitude: sec * LON_PER_SEC,
+    magHeading: 90,
+    pitchAngle: 2,
+    rollAngle: 0,
+    computedAirspeed: 300,
+    pressureAltitude: 0,
+    ...over,
+  };
+}
+
+describe('derived parameters', () => {
+  it('derives ground speed, track and distance from successive fixes', () => {
+    const ticks = Array.from({ length: 61 }, (_, s) => tick(s));
+    const [mid] = withDerived(ticks, ['groundSpeed', 'trueTrack', 'distanceFlown', 'windComponent'], [ticks[30]]);
+    expect(mid.groundSpeed).toBeCloseTo(300, 0);
+    expect(mid.trueTrack).toBeCloseTo(90, 1);
+    expect(mid.distanceFlown).toBeCloseTo(2.5, 2); // 30 s at 300 kt
+    // sea level ISA: TAS is CAS, so no wind along the track
+    expect(mid.windComponent).toBeCloseTo(0, 0);
+  });
+
+  it('turns through north the short way and skips position glitches', () => {
+    const headings = [350, 355, 0, 5, 10];
+    const ticks = headings.map((h, s) => tick(s, { magHeading: h }));
+    ticks[2] = { ...ticks[2], latitude: 10 }; // one fix 600 nm off track
+    const t = derivedTable(ticks);
+    expect(t.turnRate[2]).toBeCloseTo(5, 5);
+    expect(t.distanceFlown[4] * 3600).toBeCloseTo(300 * 4, 0);
+  });
+
+  it('estimates true airspeed for an ISA day', () => {
+    expect(trueAirspeedKt(250, 0)).toBeCloseTo(250, 0);
+    expect(trueAirspeedKt(250, 35_000)).toBeGreaterThan(420);
+    expect(trueAirspeedKt(250, 35_000)).toBeLessThan(440);
+  });
+});
@@ -0,0 +1,211 @@
+// Parameters computed from the recorded ones, for values analysts otherwise
+// work out by hand. Rates and speeds are differences across a short time
+// window around each tick, which rides out positions and attitudes that the
+// recorder repeats between samples.
+
+/**
+ * groundSpeed kt, trueTrack deg true, distanceFlown nm since the first fix in view,
+ * turnRate / pitchRate / rollRate deg/s (right turn, nose up, right wing
+ * down positive), trueAirspeed kt, windComponent kt (headwind positive).
+ */
+export const DERIVED_PARAMETERS = [
+  'groundSpeed',
+  'trueTrack',
+  'distanceFlown',
+  'turnRate',
+  'pitchRate',
+  'rollRate',
+  'trueAirspeed',
+  'windComponent',
+] as const;
+export type DerivedParameter = (typeof DERIVED_PARAMETERS)[number];
+
+/** Display label and unit of each, for GET /pilot/parameters. */
+export const DERIVED_INFO: Record<DerivedParameter, { label: string; unit: string }> = {
+  groundSpeed: { label: 'Ground speed', unit: 'kt' },
+  trueTrack: { label: 'True track', unit: 'deg' },
+  distanceFlown: { label: 'Distance flown', unit: 'nm' },
+  turnRate: { label: 'Rate of turn', unit: 'deg/s' },
+  pitchRate: { label: 'Pitch rate', unit: 'deg/s' },
+  rollRate: { label: 'Roll rate', unit: 'deg/s' },
+  trueAirspeed: { label: 'True airspeed (ISA)', unit: 'kt' },
+  windComponent: { label: 'Headwind component', unit: 'kt' },
+};
+export type DerivedValues = Partial<Record<DerivedParameter, number | null>>;
+
+export const isDerived = (p: string): p is DerivedParameter => (DERIVED_PARAMETERS as readonly string[]).includes(p);
+
+/** What a derivation reads; FdrTick has all of it. */
+export type DerivableTick = {
+  ts: number;
+  latitude: number | null;
+  longitude: number | null;
+  magHeading: number | null;
+  pitchAngle: number | null;
+  rollAngle: number | null;
+  computedAirspeed: number | null;
+  pressureAltitude: number | null;
+};
+
+const HALF_WINDOW_MS = 2000;
+const EARTH_RADIUS_M = 6_371_000;
+const M_PER_NM = 1852;
+const MS_TO_KT = 3600 / M_PER_NM;
+const DEG = Math.PI / 180;
+// fixes further apart than this speed are recorder glitches, not flight
+export const MAX_PLAUSIBLE_KT = 1000;
+// below this the airspeed sensor reads noise (taxi, takeoff roll)
+const MIN_CAS_KT = 40;
+// ground track means nothing while standing still
+const MIN_TRACK_M = 1;
+
+/** Great-circle distance in metres. */
+export function greatCircleM(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = (lat2 - lat1) * DEG;
+  const dLon = (lon2 - lon1) * DEG;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * DEG) * Math.cos(lat2 * DEG) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Initial great-circle bearing, degrees true. */
+export function bearingDeg(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const y = Math.sin((lon2 - lon1) * DEG) * Math.cos(lat2 * DEG);
+  const x =
+    Math.cos(lat1 * DEG) * Math.sin(lat2 * DEG) - Math.sin(lat1 * DEG) * Math.cos(lat2 * DEG) * Math.cos((lon2 - lon1) * DEG);
+  return (Math.atan2(y, x) / DEG + 360) % 360;
+}
+
+// shortest signed way round the compass, -180..180
+const headingDelta = (from: number, to: number) => ((to - from + 540) % 360) - 180;
+
+/**
+ * True airspeed from calibrated airspeed and pressure altitude, assuming an
+ * ISA day: without a recorded temperature this is an estimate, typically
+ * within a few percent.
+ */
+export function trueAirspeedKt(casKt: number, pressureAltFt: number): number {
+  const a0 = 661.4786; // kt, sea-level speed of sound
+  const p0 = 101_325; // Pa
+  const tropopauseFt = 36_089.24;
+  const p =
+    pressureAltFt < tropopauseFt
+      ? p0 * (1 - 6.8755856e-6 * pressureAltFt) ** 5.2558797
+      : 22_632.06 * Math.exp(-4.806346e-5 * (pressureAltFt - tropopauseFt));
+  const tempRatio = pressureAltFt < tropopauseFt ? 1 - 6.8755856e-6 * pressureAltFt : 216.65 / 288.15;
+  const impact = p0 * ((1 + 0.2 * (casKt / a0) ** 2) ** 3.5 - 1);
+  const mach = Math.sqrt(5 * ((impact / p + 1) ** (2 / 7) - 1));
+  return mach * a0 * Math.sqrt(tempRatio);
+}
+
+type DerivedTable = Record<DerivedParameter, Float64Array>; // NaN where a value can not be derived
+
+// one table per loaded flight array, dropped with it
+const tables = new WeakMap<readonly DerivableTick[], DerivedTable>();
+
+/** Every derived parameter for every tick, computed once per array. */
+export function derivedTable(ticks: readonly DerivableTick[]): DerivedTable {
+  const hit = tables.get(ticks);
+  if (hit) return hit;
+
+  const n = ticks.length;
+  const t = Object.fromEntries(DERIVED_PARAMETERS.map((p) => [p, new Float64Array(n).fill(NaN)])) as DerivedTable;
+  const hasFix = (i: number) => ticks[i].latitude != null && ticks[i].longitude != null;
+
+  // cumulative distance along successive plausible fixes
+  let distanceM = 0;
+  let last = -1; // last fix counted
+  for (let i = 0; i < n; i++) {
+    if (hasFix(i)) {
+      if (last < 0) last = i;
+      else {
+        const [a, b] = [ticks[last], ticks[i]];
+        const d = greatCircleM(a.latitude!, a.longitude!, b.latitude!, b.longitude!);
+        const dt = (b.ts - a.ts) / 1000;
+        if (dt > 0 && (d / dt) * MS_TO_KT <= MAX_PLAUSIBLE_KT) {
+          distanceM += d;
+          last = i;
+        }
+      }
+    }
+    if (last >= 0) t.distanceFlown[i] = distanceM / M_PER_NM;
+  }
+
+  // windowed differences: first and last tick within HALF_WINDOW_MS that carry the value
+  const spanOf = (i: number, has: (j: number) => boolean): [number, number] | null => {
+    let a = i;
+    while (a > 0 && ticks[a - 1].ts >= ticks[i].ts - HALF_WINDOW_MS) a--;
+    let b = i;
+    while (b < n - 1 && ticks[b + 1].ts <= ticks[i].ts + HALF_WINDOW_MS) b++;
+    while (a < b && !has(a)) a++;
+    while (b > a && !has(b)) b--;
+    return a < b && ticks[b].ts > ticks[a].ts ? [a, b] : null;
+  };
+  const rate = (key: 'pitchAngle' | 'rollAngle' | 'magHeading', out: Float64Array) => {
+    for (let i = 0; i < n; i++) {
+      const span = spanOf(i, (j) => ticks[j][key] != null);
+      if (!span) continue;
+      const [a, b] = span;
+      const va = ticks[a][key]!;
+      const vb = ticks[b][key]!;
+      const d = key === 'magHeading' ? headingDelta(va, vb) : vb - va;
+      out[i] = d / ((ticks[b].ts - ticks[a].ts) / 1000);
+    }
+  };
+  rate('magHeading', t.turnRate);
+  rate('pitchAngle', t.pitchRate);
+  rate('rollAngle', t.rollRate);
+
+  for (let i = 0; i < n; i++) {
+    const span = spanOf(i, hasFix);
+    if (span) {
+      const [a, b] = [ticks[span[0]], ticks[span[1]]];
+      const d = greatCircleM(a.latitude!, a.longitude!, b.latitude!, b.longitude!);
+      const gs = (d / ((b.ts - a.ts) / 1000)) * MS_TO_KT;
+      if (gs <= MAX_PLAUSIBLE_KT) {
+        t.groundSpeed[i] = gs;
+        if (d >= MIN_TRACK_M) t.trueTrack[i] = bearingDeg(a.latitude!, a.longitude!, b.latitude!, b.longitude!);
+      }
+    }
+
+    const { computedAirspeed: cas, pressureAltitude: alt } = ticks[i];
+    if (cas != null && alt != null && cas >= MIN_CAS_KT) {
+      t.trueAirspeed[i] = trueAirspeedKt(cas, alt);
+      // along-track only: a crosswind shows up as drift, not here
+      if (!Number.isNaN(t.groundSpeed[i])) t.windComponent[i] = t.trueAirspeed[i] - t.groundSpeed[i];
+    }
+  }
+
+  tables.set(ticks, t);
+  return t;
+}
+
+const round = (v: number) => (Number.isNaN(v) ? null : Math.round(v * 1000) / 1000);
+
+/** The wanted derived values of tick `i`. */
+export function derivedAt(table: DerivedTable, i: number, wanted: readonly DerivedParameter[]): DerivedValues {
+  const out: DerivedValues = {};
+  for (const p of wanted) out[p] = round(table[p][i]);
+  return out;
+}
+
+/**
+ * Copies of `points` with the wanted derived values added. `points` default
+ * to `ticks`; otherwise they are a selection of them (a simplified path),
+ * found by ts, which the timeline keeps strictly increasing.
+ */
+export function withDerived<T extends DerivableTick>(
+  ticks: readonly T[],
+  wanted: readonly DerivedParameter[],
+  points: readonly T[] = ticks,
+): Array<T & DerivedValues> {
+  const table = derivedTable(ticks);
+  let j = 0;
+  return points.map((point, i) => {
+    if (points !== ticks) {
+      // points are in ts order too, so the search only moves forward
+      while (j < ticks.length - 1 && ticks[j].ts < point.ts) j++;
+      i = j;
+    }
+    return { ...point, ...derivedAt(table, i, wanted) };
+  });
+}
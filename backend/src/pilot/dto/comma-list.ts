@@ -0,0 +1,17 @@
+import { Transform } from 'class-transformer';
+
+/**
+ * Query value "a, b,c" as ['a', 'b', 'c']; a repeated parameter
+ * (?p=a&p=b,c) arrives as an array and is split the same way. Anything else
+ * is left for the validators to reject.
+ */
+export const CommaList = () =>
+  Transform(({ value }: { value: unknown }) => {
+    if (value == null) return [];
+    const items: unknown[] = Array.isArray(value) ? value : [value];
+    if (!items.every((p): p is string => typeof p === 'string')) return value;
+    return items
+      .flatMap((p) => p.split(','))
+      .map((p) => p.trim())
+      .filter(Boolean);
+  });
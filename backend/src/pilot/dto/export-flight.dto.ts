@@ -0,0 +1,22 @@
+import { IsIn, IsObject, IsOptional } from 'class-validator';
+import { GetPathDto } from './get-path.dto';
+import { EXPORT_FORMATS, ExportFormat } from '../flight-export';
+import { UnitOverrides } from './unit-overrides';
+import { UNIT_SYSTEMS, UnitSystem } from '../../parameters/units';
+
+export class ExportFlightDto extends GetPathDto {
+  @IsIn(EXPORT_FORMATS)
+  format!: ExportFormat;
+
+  // units of the per-point data; elevations stay in metres, as the formats define them.
+  // Without it the user's saved profile applies
+  @IsOptional()
+  @IsIn(UNIT_SYSTEMS)
+  units?: UnitSystem;
+
+  // per-parameter exceptions, e.g. "pressureAltitude:ft,computedAirspeed:kt"
+  @IsOptional()
+  @UnitOverrides()
+  @IsObject()
+  unitOverrides?: Record<string, string>;
+}
@@ -0,0 +1,31 @@
+import { IsInt, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { GetPathDto } from './get-path.dto';
+
+export class GetPathLodDto extends GetPathDto {
+  // cap on returned points (LTTB for chart series)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2)
+  @Max(200000)
+  maxPoints?: number;
+
+  // Douglas-Peucker tolerance for the track, metres
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  tolerance?: number;
+
+  // visible window, epoch ms (inclusive)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  from?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  to?: number;
+}
@@ -0,0 +1,33 @@
+import { IsBoolean, IsIn, IsObject, IsOptional } from 'class-validator';
+import { GetPathLodDto } from './get-path-lod.dto';
+import { CommaList } from './comma-list';
+import { QueryFlag } from './query-flag';
+import { DERIVED_PARAMETERS, DerivedParameter } from '../derived';
+import { UnitOverrides } from './unit-overrides';
+import { UNIT_SYSTEMS, UnitSystem } from '../../parameters/units';
+
+// /pilot/path returns whole ticks, which may carry derived parameters, masked samples and other units too
+export class GetPathTicksDto extends GetPathLodDto {
+  // comma separated, e.g. "groundSpeed,trueTrack,windComponent"
+  @IsOptional()
+  @CommaList()
+  @IsIn(DERIVED_PARAMETERS, { each: true })
+  derived?: DerivedParameter[];
+
+  // null the samples the data-quality checks flag (see /pilot/quality)
+  @IsOptional()
+  @QueryFlag()
+  @IsBoolean()
+  mask?: boolean;
+
+  // imperial (the default), metric or si; without it the user's saved profile applies
+  @IsOptional()
+  @IsIn(UNIT_SYSTEMS)
+  units?: UnitSystem;
+
+  // per-parameter exceptions, e.g. "pressureAltitude:ft,computedAirspeed:kt"
+  @IsOptional()
+  @UnitOverrides()
+  @IsObject()
+  unitOverrides?: Record<string, string>;
+}
@@ -1,5 +1,6 @@
-import { IsInt, IsNotEmpty, IsString, Min } from 'class-validator';
+import { IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from 'class-validator';
 import { Type } from 'class-transformer';
+import { MAX_REGISTRATION_LENGTH } from '../../fleet/registration';
 
 export class GetPathDto {
   @IsString()
@@ -10,4 +11,10 @@ export class GetPathDto {
   @IsInt()
   @Min(19000101) // yyyymmdd
   date!: number;
+
+  // needed when several aircraft flew the flight number that day
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_REGISTRATION_LENGTH)
+  registration?: string;
 }
@@ -0,0 +1,38 @@
+import { ArrayNotEmpty, IsArray, IsIn, IsInt, IsObject, IsOptional, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { GetPathDto } from './get-path.dto';
+import { CommaList } from './comma-list';
+import { UnitOverrides } from './unit-overrides';
+import { UNIT_SYSTEMS, UnitSystem } from '../../parameters/units';
+
+export class GetSeriesDto extends GetPathDto {
+  // epoch ms, inclusive
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  from?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  to?: number;
+
+  // comma separated FdrRecord property names or derived parameters,
+  // e.g. "pressureAltitude,rollAngle,groundSpeed"
+  @CommaList()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  params!: string[];
+
+  // imperial (the default), metric or si; without it the user's saved profile applies
+  @IsOptional()
+  @IsIn(UNIT_SYSTEMS)
+  units?: UnitSystem;
+
+  // per-parameter exceptions, e.g. "pressureAltitude:ft,computedAirspeed:kt"
+  @IsOptional()
+  @UnitOverrides()
+  @IsObject()
+  unitOverrides?: Record<string, string>;
+}
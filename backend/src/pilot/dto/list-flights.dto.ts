@@ -0,0 +1,58 @@
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ListFlightsDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  pageSize?: number = 50;
+
+  // inclusive yyyymmdd bounds
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(19000101)
+  from?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(19000101)
+  to?: number;
+
+  // prefix match on flight number
+  @IsOptional()
+  @IsString()
+  flightNumber?: string;
+
+  // exact airframe, e.g. "D-AIBA"
+  @IsOptional()
+  @IsString()
+  registration?: string;
+
+  // ICAO type designator of the aircraft, e.g. "A320"
+  @IsOptional()
+  @IsString()
+  aircraftType?: string;
+
+  // departure, arrival or either airport: ICAO or IATA code (GET /airports finds one by name)
+  @IsOptional()
+  @IsString()
+  departure?: string;
+
+  @IsOptional()
+  @IsString()
+  arrival?: string;
+
+  @IsOptional()
+  @IsString()
+  airport?: string;
+}
@@ -0,0 +1,45 @@
+import { IsInt, IsNotEmpty, IsNumber, IsOptional, IsPositive, IsString, MaxLength, Min, ValidateIf } from 'class-validator';
+import { MAX_REGISTRATION_LENGTH } from '../../fleet/registration';
+
+const FINITE = { allowNaN: false, allowInfinity: false };
+
+/** player:* socket messages: the sender's own flight, or a watch party's room. */
+export class PlayerTargetDto {
+  // a party message acts on the room's flight, whatever key comes with it
+  @ValidateIf((o: PlayerTargetDto) => o.roomId == null)
+  @IsString()
+  @IsNotEmpty()
+  flightNumber!: string;
+
+  @ValidateIf((o: PlayerTargetDto) => o.roomId == null)
+  @IsInt()
+  @Min(19000101) // yyyymmdd
+  date!: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_REGISTRATION_LENGTH)
+  registration?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  roomId?: string;
+}
+
+export class SeekSecondsDto extends PlayerTargetDto {
+  @IsNumber(FINITE)
+  seconds!: number;
+}
+
+export class SeekPointsDto extends PlayerTargetDto {
+  @IsInt()
+  points!: number;
+}
+
+export class SetRateDto extends PlayerTargetDto {
+  // PlaybackClock clamps it to its own range
+  @IsNumber(FINITE)
+  @IsPositive()
+  rate!: number;
+}
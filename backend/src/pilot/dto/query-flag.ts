@@ -0,0 +1,9 @@
+import { Transform } from 'class-transformer';
+
+/** Query value "true"/"1" or "false"/"0" as a boolean; anything else is left for @IsBoolean to reject. */
+export const QueryFlag = () =>
+  Transform(({ value }: { value: unknown }) => {
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    return value;
+  });
@@ -0,0 +1,56 @@
+import { IsBoolean, IsIn, IsInt, IsNumber, IsObject, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { CommaList } from './comma-list';
+import { QueryFlag } from './query-flag';
+import { DERIVED_PARAMETERS, DerivedParameter } from '../derived';
+import { UnitOverrides } from './unit-overrides';
+import { UNIT_SYSTEMS, UnitSystem } from '../../parameters/units';
+
+// GetPathLodDto without the flight: a share link names that itself
+export class SharedPathDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2)
+  @Max(200000)
+  maxPoints?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  tolerance?: number;
+
+  // visible window, epoch ms (inclusive); never reaches past the link's own
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  from?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  to?: number;
+
+  // comma separated derived parameters to add to each point, e.g. "groundSpeed,trueTrack"
+  @IsOptional()
+  @CommaList()
+  @IsIn(DERIVED_PARAMETERS, { each: true })
+  derived?: DerivedParameter[];
+
+  @IsOptional()
+  @QueryFlag()
+  @IsBoolean()
+  mask?: boolean;
+
+  // imperial (the default), metric or si
+  @IsOptional()
+  @IsIn(UNIT_SYSTEMS)
+  units?: UnitSystem;
+
+  // per-parameter exceptions, e.g. "pressureAltitude:ft,computedAirspeed:kt"
+  @IsOptional()
+  @UnitOverrides()
+  @IsObject()
+  unitOverrides?: Record<string, string>;
+}
@@ -0,0 +1,20 @@
+import { Transform } from 'class-transformer';
+
+/**
+ * Query value "pressureAltitude:ft, computedAirspeed:kt" as
+ * { pressureAltitude: 'ft', computedAirspeed: 'kt' }; anything malformed,
+ * repeated parameters included, is left for @IsObject to reject.
+ */
+export const UnitOverrides = () =>
+  Transform(({ value }: { value: unknown }) => {
+    if (typeof value !== 'string') return value;
+    const overrides: Record<string, string> = {};
+    for (const pair of value.split(',')) {
+      const parts = pair.split(':').map((s) => s.trim());
+      if (!parts.some(Boolean)) continue;
+      const [name, unit] = parts;
+      if (parts.length !== 2 || !name || !unit) return value;
+      overrides[name] = unit;
+    }
+    return overrides;
+  });
@@ -1,4 +1,4 @@
-import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, Index, DeleteDateColumn } from 'typeorm';
 
 @Entity('fdr_records')
 export class FdrRecord {
@@ -33,4 +33,19 @@ export class FdrRecord {
   @Column({ name: 'ap1_engaged', type: 'tinyint', nullable: true }) ap1Engaged?: number;
   @Column({ name: 'ap2_engaged', type: 'tinyint', nullable: true }) ap2Engaged?: number;
   @Column({ name: 'air_ground', type: 'tinyint', nullable: true }) airGround?: number;
+
+  // registered parameters without a column of their own, by name (see ParametersService)
+  @Column({ type: 'json', nullable: true }) extra?: Record<string, number> | null;
+
+  // owning organization
+  @Index() @Column({ name: 'organization_id', type: 'int', nullable: true }) organizationId?: number | null;
+
+  // flights.id: the airframe, flight number and date these rows were recorded under
+  @Index() @Column({ name: 'flight_id', type: 'int', nullable: true }) flightId?: number | null;
+
+  // import_batches.id of the upload that created this row (null for legacy rows)
+  @Index() @Column({ name: 'batch_id', type: 'int', nullable: true }) batchId?: number | null;
+
+  // set when a newer import replaced this row's batch; kept so a rollback can bring it back
+  @DeleteDateColumn({ name: 'deleted_at', type: 'datetime', precision: 6, nullable: true }) deletedAt?: Date | null;
 }
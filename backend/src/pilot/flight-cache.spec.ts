@@ -0,0 +1,50 @@
+import { FlightCache, TICK_BYTES } from './flight-cache';
+import type { FdrTick } from './pilot.service';
+
+const flight = (n: number) => Array.from({ length: n }, (_, i) => ({ id: i }) as FdrTick);
+
+describe('FlightCache', () => {
+  it('evicts the least recently used flight past the byte budget', async () => {
+    const cache = new FlightCache(10 * TICK_BYTES);
+    const load = jest.fn((n: number) => Promise.resolve(flight(n)));
+
+    await cache.get('a', () => load(4));
+    await cache.get('b', () => load(4));
+    await cache.get('a', () => load(4)); // a is now most recent
+    await cache.get('c', () => load(4));
+
+    expect(cache.stats()).toMatchObject({ entries: 2, bytes: 8 * TICK_BYTES });
+    await cache.get('a', () => load(4));
+    expect(load).toHaveBeenCalledTimes(3); // b went, a stayed
+  });
+
+  it('keeps pinned flights and shares concurrent loads', async () => {
+    const cache = new FlightCache(5 * TICK_BYTES);
+    const load = jest.fn(() => Promise.resolve(flight(4)));
+
+    const [a1, a2] = await Promise.all([cache.get('a', load), cache.get('a', load)]);
+    expect(a1).toBe(a2);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    cache.pin('a', a1);
+    const b = await cache.get('b', () => Promise.resolve(flight(4)));
+    expect(cache.holds('a', a1)).toBe(true);
+    expect(cache.holds('b', b)).toBe(false); // no room next to the pinned flight
+  });
+
+  it('does not cache a load that was running when the flight was deleted', async () => {
+    const cache = new FlightCache(10 * TICK_BYTES);
+    let finish!: (data: FdrTick[]) => void;
+    const stale = cache.get('a', () => new Promise<FdrTick[]>((resolve) => (finish = resolve)));
+
+    cache.delete('a'); // a re-import committed while the old rows were being read
+    const fresh = flight(2);
+    const next = cache.get('a', () => Promise.resolve(fresh));
+    finish(flight(4));
+    await stale;
+
+    await expect(next).resolves.toBe(fresh);
+    expect(cache.holds('a', fresh)).toBe(true);
+    await expect(cache.get('a', () => Promise.resolve(flight(1)))).resolves.toBe(fresh);
+  });
+});
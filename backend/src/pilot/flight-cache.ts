@@ -0,0 +1,119 @@
+import type { FdrTick } from './pilot.service';
+
+// Rough heap cost of one FdrTick: ~20 fields, a couple of strings, object header.
+export const TICK_BYTES = 400;
+const DEFAULT_BUDGET_MB = 256;
+
+export function flightCacheBudget(): number {
+  const mb = Number(process.env.FLIGHT_CACHE_MB);
+  return (Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_BUDGET_MB) * 1024 * 1024;
+}
+
+export const tickBytes = (ticks: FdrTick[]) => ticks.length * TICK_BYTES;
+
+type Entry = {
+  data: FdrTick[];
+  bytes: number;
+  pins: number; // playback sessions holding this array
+};
+
+export type FlightCacheStats = {
+  entries: number;
+  pinned: number;
+  bytes: number;
+  budgetBytes: number;
+};
+
+/**
+ * Loaded flights shared by the HTTP path endpoints and playback sessions,
+ * least recently used first out once the byte budget is exceeded. Entries a
+ * live session has pinned are never evicted, since dropping them would only
+ * lead to a second copy being loaded. Concurrent misses share one load; a
+ * load still running when its flight is deleted is not cached.
+ */
+export class FlightCache {
+  private entries = new Map<string, Entry>(); // iteration order = recency
+  private loading = new Map<string, Promise<FdrTick[]>>();
+  // bumped by delete, so a load that read the rows before then is not put back
+  private generations = new Map<string, number>();
+  private used = 0;
+
+  constructor(readonly budgetBytes = flightCacheBudget()) {}
+
+  async get(id: string, load: () => Promise<FdrTick[]>): Promise<FdrTick[]> {
+    const hit = this.entries.get(id);
+    if (hit) {
+      this.entries.delete(id);
+      this.entries.set(id, hit);
+      return hit.data;
+    }
+
+    let pending = this.loading.get(id);
+    if (!pending) {
+      const generation = this.generations.get(id) ?? 0;
+      const started: Promise<FdrTick[]> = load()
+        .then((data) => {
+          // unknown flights come back empty; not worth a slot
+          if (data.length && generation === (this.generations.get(id) ?? 0)) this.put(id, data);
+          return data;
+        })
+        .finally(() => {
+          if (this.loading.get(id) === started) this.loading.delete(id);
+        });
+      this.loading.set(id, (pending = started));
+    }
+    return pending;
+  }
+
+  pin(id: string, data: FdrTick[]) {
+    const e = this.entries.get(id);
+    if (e?.data === data) e.pins++;
+  }
+
+  unpin(id: string, data: FdrTick[]) {
+    const e = this.entries.get(id);
+    if (e?.data !== data) return;
+    e.pins = Math.max(0, e.pins - 1);
+    this.evict();
+  }
+
+  /** Whether `data` is the cached copy (sessions report shared memory once). */
+  holds(id: string, data: FdrTick[]) {
+    return this.entries.get(id)?.data === data;
+  }
+
+  /** Forget a flight whose rows changed, loads still running included. */
+  delete(id: string) {
+    this.generations.set(id, (this.generations.get(id) ?? 0) + 1);
+    this.loading.delete(id);
+    this.drop(id);
+  }
+
+  stats(): FlightCacheStats {
+    let pinned = 0;
+    for (const e of this.entries.values()) if (e.pins) pinned++;
+    return { entries: this.entries.size, pinned, bytes: this.used, budgetBytes: this.budgetBytes };
+  }
+
+  private put(id: string, data: FdrTick[]) {
+    this.drop(id);
+    const bytes = tickBytes(data);
+    this.entries.set(id, { data, bytes, pins: 0 });
+    this.used += bytes;
+    this.evict();
+  }
+
+  private evict() {
+    for (const [id, e] of this.entries) {
+      if (this.used <= this.budgetBytes) return;
+      if (!e.pins) this.drop(id);
+    }
+  }
+
+  private drop(id: string) {
+    const e = this.entries.get(id);
+    if (!e) return;
+    this.used -= e.bytes;
+    this.entries.delete(id);
+  }
+}
@@ -0,0 +1,163 @@
+import type { FdrTick, FlightKey } from './pilot.service';
+import { convertValue, UnitPlan } from '../parameters/units';
+
+export const EXPORT_FORMATS = ['kml', 'gpx', 'geojson'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml',
+  geojson: 'application/geo+json',
+};
+
+/**
+ * Opens a fresh pass over the flight's ticks. Writers that need the data in
+ * more than one order (GeoJSON's track, then its samples) call it several
+ * times instead of buffering the flight.
+ */
+export type TickSource = () => AsyncIterable<FdrTick[]>;
+
+const FT_TO_M = 0.3048;
+
+type ExtraField = 'pitchAngle' | 'rollAngle' | 'magHeading' | 'computedAirspeed' | 'verticalSpeed' | 'pressureAltitude';
+
+// per-point extended data, in this order everywhere
+const EXTRA: Array<{ field: ExtraField; name: string }> = [
+  { field: 'pitchAngle', name: 'pitch' },
+  { field: 'rollAngle', name: 'roll' },
+  { field: 'magHeading', name: 'magHeading' },
+  { field: 'computedAirspeed', name: 'cas' },
+  { field: 'verticalSpeed', name: 'verticalSpeed' },
+  { field: 'pressureAltitude', name: 'pressureAltitude' },
+];
+
+/** EXTRA in the units of one export; elevations are metres whatever they are. */
+type Column = (typeof EXTRA)[number] & { unit: string; factor: number };
+const columnsIn = (units: UnitPlan): Column[] =>
+  EXTRA.map((e) => ({ ...e, unit: units.units[e.field] ?? '', factor: units.factors[e.field] ?? 1 }));
+const valueOf = (t: FdrTick, c: Column) => convertValue(t[c.field], c.factor);
+
+const hasFix = (t: FdrTick) => t.latitude != null && t.longitude != null;
+const altM = (t: FdrTick) => (t.pressureAltitude == null ? 0 : +(t.pressureAltitude * FT_TO_M).toFixed(1));
+const iso = (ts: number) => new Date(ts).toISOString();
+const xml = (s: string) =>
+  s.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c]!);
+
+async function* fixes(src: TickSource): AsyncGenerator<FdrTick[]> {
+  for await (const chunk of src()) {
+    const kept = chunk.filter(hasFix);
+    if (kept.length) yield kept;
+  }
+}
+
+export function exportFileName(k: FlightKey, format: ExportFormat) {
+  const base = [k.flightNumber, k.date, k.registration].filter(Boolean).join('_');
+  return `${base.replace(/[^\w.-]+/g, '_')}.${format}`;
+}
+
+const title = (k: FlightKey) => [k.flightNumber, k.date, k.registration].filter(Boolean).join(' ');
+
+export function exportFlight(format: ExportFormat, k: FlightKey, src: TickSource, units: UnitPlan): AsyncGenerator<string> {
+  const columns = columnsIn(units);
+  switch (format) {
+    case 'kml':
+      return kml(k, src, columns);
+    case 'gpx':
+      return gpx(k, src, columns);
+    case 'geojson':
+      return geojson(k, src, columns);
+  }
+}
+
+// ---------- KML (gx:MultiTrack of one gx:Track per chunk, absolute altitude) ----------
+async function* kml(k: FlightKey, src: TickSource, columns: Column[]): AsyncGenerator<string> {
+  const name = xml(title(k));
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">\n';
+  yield `<Document><name>${name}</name>\n`;
+  yield '<Schema id="fdr" name="fdr">';
+  for (const c of columns) {
+    yield `<gx:SimpleArrayField name="${c.name}" type="float"><displayName>${c.name} (${xml(c.unit)})</displayName></gx:SimpleArrayField>`;
+  }
+  yield '</Schema>\n';
+  yield `<Placemark><name>${name}</name>\n<gx:MultiTrack><altitudeMode>absolute</altitudeMode><gx:interpolate>1</gx:interpolate>\n`;
+
+  // gx:Track wants every <when>, then every <gx:coord>, then the arrays; a
+  // track per chunk keeps that order in one pass over the flight
+  for await (const chunk of fixes(src)) {
+    yield (
+      '<gx:Track><altitudeMode>absolute</altitudeMode>\n' +
+      chunk.map((t) => `<when>${iso(t.ts)}</when>`).join('\n') +
+      '\n' +
+      chunk.map((t) => `<gx:coord>${t.longitude} ${t.latitude} ${altM(t)}</gx:coord>`).join('\n') +
+      '\n' +
+      // heading tilt roll
+      chunk.map((t) => `<gx:angles>${t.magHeading ?? 0} ${t.pitchAngle ?? 0} ${t.rollAngle ?? 0}</gx:angles>`).join('\n') +
+      '\n<ExtendedData><SchemaData schemaUrl="#fdr">\n' +
+      columns
+        .map(
+          (c) =>
+            `<gx:SimpleArrayData name="${c.name}">` +
+            chunk.map((t) => `<gx:value>${valueOf(t, c) ?? ''}</gx:value>`).join('') +
+            '</gx:SimpleArrayData>\n',
+        )
+        .join('') +
+      '</SchemaData></ExtendedData>\n</gx:Track>\n'
+    );
+  }
+  yield '</gx:MultiTrack></Placemark>\n</Document>\n</kml>\n';
+}
+
+// ---------- GPX 1.1 ----------
+async function* gpx(k: FlightKey, src: TickSource, columns: Column[]): AsyncGenerator<string> {
+  const name = xml(title(k));
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield '<gpx version="1.1" creator="airpilot" xmlns="http://www.topografix.com/GPX/1/1" xmlns:fdr="urn:airpilot:fdr:1">\n';
+  const units = columns.map((c) => `${c.name}="${xml(c.unit)}"`).join(' ');
+  yield `<trk><name>${name}</name><extensions><fdr:units ${units}/></extensions><trkseg>\n`;
+  for await (const chunk of fixes(src)) {
+    yield chunk
+      .map((t) => {
+        const ext = columns
+          .filter((c) => t[c.field] != null)
+          .map((c) => `<fdr:${c.name}>${valueOf(t, c)}</fdr:${c.name}>`)
+          .join('');
+        return (
+          `<trkpt lat="${t.latitude}" lon="${t.longitude}"><ele>${altM(t)}</ele><time>${iso(t.ts)}</time>` +
+          (ext ? `<extensions>${ext}</extensions>` : '') +
+          '</trkpt>'
+        );
+      })
+      .join('\n') + '\n';
+  }
+  yield '</trkseg></trk>\n</gpx>\n';
+}
+
+// ---------- GeoJSON: one 3D LineString, then a Point per sample ----------
+async function* geojson(k: FlightKey, src: TickSource, columns: Column[]): AsyncGenerator<string> {
+  const units = { elevation: 'm', ...Object.fromEntries(columns.map((c) => [c.name, c.unit])) };
+  yield '{"type":"FeatureCollection","features":[\n';
+  yield `{"type":"Feature","properties":${JSON.stringify({ flightNumber: k.flightNumber, date: k.date, registration: k.registration ?? null, kind: 'track', units })},`;
+  yield '"geometry":{"type":"LineString","coordinates":[';
+  let first = true;
+  for await (const chunk of fixes(src)) {
+    yield (first ? '' : ',') + chunk.map((t) => JSON.stringify([t.longitude, t.latitude, altM(t)])).join(',');
+    first = false;
+  }
+  yield ']}}';
+
+  for await (const chunk of fixes(src)) {
+    yield chunk
+      .map((t) => {
+        const properties: Record<string, unknown> = { kind: 'sample', ts: t.ts, time: iso(t.ts) };
+        for (const c of columns) properties[c.name] = valueOf(t, c);
+        return ',\n' + JSON.stringify({
+          type: 'Feature',
+          properties,
+          geometry: { type: 'Point', coordinates: [t.longitude, t.latitude, altM(t)] },
+        });
+      })
+      .join('');
+  }
+  yield '\n]}\n';
+}
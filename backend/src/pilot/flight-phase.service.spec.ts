@@ -0,0 +1,59 @@
+import { FlightPhaseService, PhaseInput } from './flight-phase.service';
+
+// 1 Hz synthetic flight: taxi, roll, climb to 10 000 ft, cruise, descent, approach, rollout
+function syntheticFlight(): PhaseInput[] {
+  const out: PhaseInput[] = [];
+  let alt = 0;
+  const push = (secs: number, airGround: number, cas: number, vs: number) => {
+    for (let i = 0; i < secs; i++) {
+      alt = Math.max(0, alt + vs / 60);
+      out.push({
+        ts: out.length * 1000,
+        airGround,
+        pressureAltitude: Math.round(alt),
+        verticalSpeed: vs,
+        computedAirspeed: cas,
+      });
+    }
+  };
+  push(120, 0, 10, 0); // taxi
+  push(30, 0, 120, 0); // takeoff roll
+  push(600, 1, 250, 1500); // climb to ~15 000 ft
+  push(900, 1, 280, 0); // cruise
+  push(600, 1, 250, -1200); // descent
+  push(180, 1, 140, -700); // final
+  push(30, 0, 100, 0); // rollout
+  push(120, 0, 15, 0); // taxi in
+  return out;
+}
+
+describe('FlightPhaseService', () => {
+  const svc = new FlightPhaseService();
+
+  it('segments a complete flight in order', () => {
+    const ticks = syntheticFlight();
+    const labels = svc.label(ticks);
+    const order = svc.intervals(ticks, labels).map((p) => p.phase);
+    expect(order).toEqual([
+      'taxi',
+      'takeoff',
+      'climb',
+      'cruise',
+      'descent',
+      'approach',
+      'landing',
+      'taxi',
+    ]);
+  });
+
+  it('labels a ground-only recording as taxi', () => {
+    const ticks: PhaseInput[] = [0, 1, 2].map((i) => ({
+      ts: i * 1000,
+      airGround: 0,
+      pressureAltitude: 20,
+      verticalSpeed: 0,
+      computedAirspeed: 5,
+    }));
+    expect(svc.label(ticks)).toEqual(['taxi', 'taxi', 'taxi']);
+  });
+});
@@ -0,0 +1,169 @@
+import { Injectable } from '@nestjs/common';
+
+export const FLIGHT_PHASES = [
+  'taxi',
+  'takeoff',
+  'climb',
+  'cruise',
+  'descent',
+  'approach',
+  'landing',
+] as const;
+export type FlightPhase = (typeof FLIGHT_PHASES)[number];
+
+export type PhaseInterval = {
+  phase: FlightPhase;
+  startIdx: number;
+  endIdx: number; // inclusive
+  startTs: number;
+  endTs: number;
+  durationSec: number;
+};
+
+// what the detector needs from a tick; FdrTick satisfies it
+export type PhaseInput = {
+  ts: number;
+  airGround: number | null;
+  pressureAltitude: number | null;
+  verticalSpeed: number | null;
+  computedAirspeed: number | null;
+};
+
+const AIRBORNE_CAS = 60; // kt, only used when air/ground is not recorded
+const ROLL_CAS = 40; // kt, on ground above this is a takeoff or landing roll
+const TAKEOFF_TOP_FT = 1000; // above departure field
+const APPROACH_GATE_FT = 2500; // above arrival field
+const FLARE_FT = 50;
+const VS_CLIMB = 300; // ft/min
+const VS_DESCENT = -300;
+const VS_SMOOTH_MS = 10_000;
+const MIN_SEGMENT_MS = 60_000; // shorter climb/cruise/descent runs fold into their neighbour
+
+@Injectable()
+export class FlightPhaseService {
+  /** Phase per tick, same order and length as the input. */
+  label(ticks: PhaseInput[]): FlightPhase[] {
+    const n = ticks.length;
+    if (!n) return [];
+
+    // Air/Ground: 1 = air, 0 = ground (see importer to01)
+    const air = ticks.map((t) =>
+      t.airGround === 1 ? true : t.airGround === 0 ? false : (t.computedAirspeed ?? 0) >= AIRBORNE_CAS,
+    );
+    const firstAir = air.indexOf(true);
+    const lastAir = air.lastIndexOf(true);
+    if (firstAir < 0) {
+      return ticks.map((t) => ((t.computedAirspeed ?? 0) >= ROLL_CAS ? 'takeoff' : 'taxi'));
+    }
+
+    const alt = this.carryForward(ticks.map((t) => t.pressureAltitude));
+    const depElev = alt[Math.max(0, firstAir - 1)] ?? 0;
+    const arrElev = alt[Math.min(n - 1, lastAir + 1)] ?? depElev;
+    const vs = this.smooth(ticks, ticks.map((t) => t.verticalSpeed));
+
+    // final approach starts after the last time the aircraft was above the gate
+    // over the arrival field, and never before the highest point of the flight
+    let peak = firstAir;
+    let lastHigh = -1;
+    for (let i = firstAir; i <= lastAir; i++) {
+      if (!air[i]) continue;
+      if ((alt[i] ?? 0) > (alt[peak] ?? 0)) peak = i;
+      if ((alt[i] ?? 0) - arrElev >= APPROACH_GATE_FT) lastHigh = i;
+    }
+    const finalFrom = Math.max(peak, lastHigh) + 1;
+
+    const out: FlightPhase[] = new Array<FlightPhase>(n);
+    let takeoffDone = false;
+    for (let i = 0; i < n; i++) {
+      const cas = ticks[i].computedAirspeed ?? 0;
+      if (!air[i]) {
+        if (i < firstAir) out[i] = cas >= ROLL_CAS ? 'takeoff' : 'taxi';
+        else out[i] = cas >= ROLL_CAS ? 'landing' : 'taxi';
+        continue;
+      }
+
+      if (!takeoffDone && (alt[i] ?? 0) - depElev >= TAKEOFF_TOP_FT) takeoffDone = true;
+
+      if (!takeoffDone && i <= peak) out[i] = 'takeoff';
+      else if (i >= finalFrom) out[i] = (alt[i] ?? 0) - arrElev < FLARE_FT ? 'landing' : 'approach';
+      else if ((vs[i] ?? 0) >= VS_CLIMB) out[i] = 'climb';
+      else if ((vs[i] ?? 0) <= VS_DESCENT) out[i] = 'descent';
+      else out[i] = 'cruise';
+    }
+
+    this.foldShortEnroute(ticks, out);
+    return out;
+  }
+
+  /** Consecutive runs of the same phase. */
+  intervals(ticks: Array<{ ts: number }>, phases: FlightPhase[]): PhaseInterval[] {
+    const out: PhaseInterval[] = [];
+    for (let i = 0; i < phases.length; i++) {
+      const last = out[out.length - 1];
+      if (last && last.phase === phases[i]) {
+        last.endIdx = i;
+        last.endTs = ticks[i].ts;
+        last.durationSec = Math.round((last.endTs - last.startTs) / 1000);
+      } else {
+        out.push({
+          phase: phases[i],
+          startIdx: i,
+          endIdx: i,
+          startTs: ticks[i].ts,
+          endTs: ticks[i].ts,
+          durationSec: 0,
+        });
+      }
+    }
+    return out;
+  }
+
+  // ---------- helpers ----------
+  private carryForward(values: Array<number | null>): Array<number | null> {
+    let prev: number | null = values.find((v) => v != null) ?? null;
+    return values.map((v) => (v == null ? prev : (prev = v)));
+  }
+
+  /** Centered time-window mean; FDR vertical speed is noisy sample to sample. */
+  private smooth(ticks: PhaseInput[], values: Array<number | null>): Array<number | null> {
+    const half = VS_SMOOTH_MS / 2;
+    const out: Array<number | null> = new Array<number | null>(values.length).fill(null);
+    let lo = 0;
+    let hi = 0;
+    let sum = 0;
+    let cnt = 0;
+    for (let i = 0; i < values.length; i++) {
+      const t = ticks[i].ts;
+      while (hi < values.length && ticks[hi].ts <= t + half) {
+        if (values[hi] != null) {
+          sum += values[hi]!;
+          cnt++;
+        }
+        hi++;
+      }
+      while (ticks[lo].ts < t - half) {
+        if (values[lo] != null) {
+          sum -= values[lo]!;
+          cnt--;
+        }
+        lo++;
+      }
+      out[i] = cnt ? sum / cnt : null;
+    }
+    return out;
+  }
+
+  private foldShortEnroute(ticks: PhaseInput[], phases: FlightPhase[]) {
+    const enroute = new Set<FlightPhase>(['climb', 'cruise', 'descent']);
+    let start = 0;
+    for (let i = 1; i <= phases.length; i++) {
+      if (i < phases.length && phases[i] === phases[start]) continue;
+      const short = ticks[i - 1].ts - ticks[start].ts < MIN_SEGMENT_MS;
+      const prev = start > 0 ? phases[start - 1] : undefined;
+      if (short && enroute.has(phases[start]) && prev && enroute.has(prev)) {
+        for (let j = start; j < i; j++) phases[j] = prev;
+      }
+      start = i;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { CacheInterceptor } from '@nestjs/cache-manager';
+import type { AuthUser } from '../auth/current-user.decorator';
+import { CROSS_ORG_ROLE } from '../organizations/org-scope';
+
+/**
+ * Response cache keyed by URL and organization, so one tenant never gets
+ * another's cached body, and by the user's saved units, which apply to URLs
+ * that name none.
+ */
+@Injectable()
+export class OrgCacheInterceptor extends CacheInterceptor {
+  protected trackBy(context: ExecutionContext): string | undefined {
+    const key = super.trackBy(context);
+    if (!key) return key;
+    const user = context.switchToHttp().getRequest<{ user?: AuthUser }>().user;
+    const scope = user?.role === CROSS_ORG_ROLE ? '*' : user?.organizationId;
+    const units = user?.unitProfile ? JSON.stringify(user.unitProfile) : '';
+    // no organization: orgScope() rejects the request, so nothing gets cached
+    return scope == null ? undefined : `${scope}|${units}|${key}`;
+  }
+}
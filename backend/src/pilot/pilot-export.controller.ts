@@ -0,0 +1,53 @@
+import {
+  Controller,
+  Get,
+  NotFoundException,
+  Query,
+  Res,
+  StreamableFile,
+  UseGuards,
+  UseInterceptors,
+  ValidationPipe,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { Readable } from 'stream';
+import { PilotService } from './pilot.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthUser, CurrentUser } from '../auth/current-user.decorator';
+import { orgScope } from '../organizations/org-scope';
+import { ExportFlightDto } from './dto/export-flight.dto';
+import { EXPORT_CONTENT_TYPES, exportFileName, exportFlight } from './flight-export';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+import { Audit } from '../audit/audit.decorator';
+
+// kept apart from PilotController: streamed bodies must not go through the response cache
+@Controller('pilot')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'pilot', 'viewer')
+@UseInterceptors(AuditInterceptor)
+export class PilotExportController {
+  constructor(private readonly pilot: PilotService) {}
+
+  @Get('export')
+  @Audit('flight.export')
+  async export(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) q: ExportFlightDto,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const orgId = orgScope(user);
+    const flight = await this.pilot.resolveFlight({ ...q, orgId });
+    if (!flight) throw new NotFoundException('Flight not found');
+
+    const key = { flightNumber: flight.flightNumber, date: flight.date, registration: flight.registration || undefined, orgId };
+    const units = this.pilot.unitPlan(q, user.unitProfile);
+    const body = exportFlight(q.format, key, () => this.pilot.streamPath(key), units);
+    res.set({
+      'Content-Type': `${EXPORT_CONTENT_TYPES[q.format]}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${exportFileName(key, q.format)}"`,
+    });
+    return new StreamableFile(Readable.from(body));
+  }
+}
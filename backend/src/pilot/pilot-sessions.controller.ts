@@ -0,0 +1,20 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { PilotService } from './pilot.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthUser, CurrentUser } from '../auth/current-user.decorator';
+import { orgScope } from '../organizations/org-scope';
+
+/** Live playback sessions and flight cache usage, for operators. */
+@Controller('pilot/sessions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class PilotSessionsController {
+  constructor(private readonly pilot: PilotService) {}
+
+  @Get()
+  list(@CurrentUser() user: AuthUser) {
+    return this.pilot.sessionStats(orgScope(user));
+  }
+}
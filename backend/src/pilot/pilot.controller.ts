@@ -1,22 +1,145 @@
-import { Controller, Get, Query, UseInterceptors, ValidationPipe } from '@nestjs/common';
-import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
+import { Controller, Get, Query, UseGuards, UseInterceptors, ValidationPipe } from '@nestjs/common';
+import { CacheTTL } from '@nestjs/cache-manager';
 import { PilotService } from './pilot.service';
+import { OrgCacheInterceptor } from './org-cache.interceptor';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+import { Audit } from '../audit/audit.decorator';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { AuthUser, CurrentUser } from '../auth/current-user.decorator';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
 import { GetPathDto } from './dto/get-path.dto';
+import { GetPathLodDto } from './dto/get-path-lod.dto';
+import { GetPathTicksDto } from './dto/get-path-ticks.dto';
+import { GetSeriesDto } from './dto/get-series.dto';
+import { ListFlightsDto } from './dto/list-flights.dto';
+import { orgScope } from '../organizations/org-scope';
 
 @Controller('pilot')
-@UseInterceptors(CacheInterceptor) // enable response caching
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'pilot', 'viewer')
+// audit first: a response served from the cache is still a view
+@UseInterceptors(AuditInterceptor, OrgCacheInterceptor) // enable response caching, per organization
 export class PilotController {
   constructor(private readonly pilot: PilotService) {}
 
   @Get('path')
+  @Audit('flight.view')
   @CacheTTL(30) // seconds
   async path(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) q: GetPathTicksDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const units = this.pilot.unitPlan(q, user.unitProfile);
+    const { path, total } = await this.pilot.getPathLod(
+      { flightNumber: q.flightNumber.trim(), date: q.date, registration: q.registration, orgId: orgScope(user) },
+      {
+        maxPoints: q.maxPoints,
+        tolerance: q.tolerance,
+        from: q.from,
+        to: q.to,
+        derived: q.derived,
+        mask: q.mask,
+        units,
+      },
+    );
+    return { path, total, returned: path.length, units: units.units };
+  }
+
+  @Get('path/min')
+  @Audit('flight.view')
+  @CacheTTL(30)
+  async pathMin(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) q: GetPathLodDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    const path = await this.pilot.getPathMin(
+      { flightNumber: q.flightNumber.trim(), date: q.date, registration: q.registration, orgId: orgScope(user) },
+      { maxPoints: q.maxPoints, tolerance: q.tolerance, from: q.from, to: q.to },
+    );
+    return { path };
+  }
+
+  @Get('series')
+  @Audit('flight.view')
+  @CacheTTL(30)
+  async series(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) q: GetSeriesDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.pilot.getSeries({
+      flightNumber: q.flightNumber.trim(),
+      date: q.date,
+      registration: q.registration,
+      orgId: orgScope(user),
+      from: q.from,
+      to: q.to,
+      params: q.params,
+      units: this.pilot.unitPlan(q, user.unitProfile),
+    });
+  }
+
+  @Get('phases')
+  @CacheTTL(30)
+  async phases(
     @Query(new ValidationPipe({ transform: true, whitelist: true })) q: GetPathDto,
+    @CurrentUser() user: AuthUser,
   ) {
-    const path = await this.pilot.getPath({
+    const phases = await this.pilot.getPhases({
       flightNumber: q.flightNumber.trim(),
       date: q.date,
+      registration: q.registration,
+      orgId: orgScope(user),
+    });
+    return { phases };
+  }
+
+  @Get('route')
+  @CacheTTL(30)
+  async route(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) q: GetPathDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.pilot.getRoute({
+      flightNumber: q.flightNumber.trim(),
+      date: q.date,
+      registration: q.registration,
+      orgId: orgScope(user),
+    });
+  }
+
+  @Get('quality')
+  @CacheTTL(30)
+  async quality(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) q: GetPathDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.pilot.getQuality({
+      flightNumber: q.flightNumber.trim(),
+      date: q.date,
+      registration: q.registration,
+      orgId: orgScope(user),
+    });
+  }
+
+  @Get('flights')
+  @CacheTTL(30)
+  async flights(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) q: ListFlightsDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.pilot.listFlights({
+      page: q.page ?? 1,
+      pageSize: q.pageSize ?? 50,
+      from: q.from,
+      to: q.to,
+      flightNumber: q.flightNumber,
+      registration: q.registration,
+      aircraftType: q.aircraftType,
+      departure: q.departure,
+      arrival: q.arrival,
+      airport: q.airport,
+      orgId: orgScope(user),
     });
-    return { path };
   }
 }
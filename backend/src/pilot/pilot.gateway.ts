@@ -1,60 +1,325 @@
-import { WebSocketGateway, WebSocketServer, SubscribeMessage, MessageBody, ConnectedSocket } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
-import { PilotService } from './pilot.service';
-import { FlightKey } from './pilot.repository';
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayDisconnect,
+  OnGatewayInit,
+} from '@nestjs/websockets';
+import { UseGuards, UseInterceptors, ValidationPipe } from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { Namespace, Socket } from 'socket.io';
+import { FlightKey, PilotService, ScopedKey, SessionId, TickOptions } from './pilot.service';
+import { WatchParty, WatchPartyService } from './watch-party.service';
+import { WsAuthService } from '../auth/ws-auth.service';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { canControl, CONTROL_ROLES, DriveGuard, socketScope, socketShare, socketUser } from './player-control';
+import { AuditInterceptor } from '../audit/audit.interceptor';
+import { Audit } from '../audit/audit.decorator';
+import { CROSS_ORG_ROLE } from '../organizations/org-scope';
+import { ShareGrant, ShareService } from '../share/share.service';
+import { normalizeRegistration } from '../fleet/registration';
+import { DerivedParameter, isDerived } from './derived';
+import { UNIT_SYSTEMS, UnitPlan, UnitQuery, UnitSystem } from '../parameters/units';
+import { PlayerTargetDto, SeekPointsDto, SeekSecondsDto, SetRateDto } from './dto/player-message.dto';
 
-@WebSocketGateway({ namespace: '/pilot', cors: { origin: '*' } })
-export class PilotGateway {
-  @WebSocketServer() server: Server;
-  constructor(private readonly pilot: PilotService) {}
+/**
+ * Player messages drive the sender's private cursor, or a party's when roomId
+ * is set. Their payloads are checked like HTTP bodies; a bad one is refused
+ * before it reaches a clock, which every viewer of a party shares.
+ */
+const playerMessage = new ValidationPipe({
+  whitelist: true,
+  forbidNonWhitelisted: true,
+  exceptionFactory: (errors) => new WsException(errors.flatMap((e) => Object.values(e.constraints ?? {})).join('; ')),
+});
+/**
+ * Join messages may opt in to derived parameters, masked bad samples and a
+ * unit profile (`units`: imperial, metric or si, `unitOverrides`: parameter ->
+ * unit) on the path, snapshots and ticks.
+ */
+type WithTickOptions = { derived?: unknown; mask?: unknown; units?: unknown; unitOverrides?: unknown };
+type Sink = { emit: (event: string, payload: unknown) => unknown };
 
-@SubscribeMessage('join')
-async join(@ConnectedSocket() client: Socket, @MessageBody() key: FlightKey) {
-  const room = `${key.flightNumber}:${key.date}`;
-  await client.join(room);
+const privateSession = (client: Socket): SessionId => `socket:${client.id}`;
+
+// browser origins allowed to open the socket, e.g. CORS_ORIGINS=https://replay.example.com
+const DEFAULT_ORIGINS = 'http://localhost:3001';
+const allowedOrigins = () =>
+  (process.env.CORS_ORIGINS || DEFAULT_ORIGINS).split(',').map((o) => o.trim()).filter(Boolean);
+
+@WebSocketGateway({
+  namespace: '/pilot',
+  cors: {
+    // read per request: .env is loaded after this decorator runs
+    origin: (origin: string | undefined, cb: (err: Error | null, allow?: boolean) => void) =>
+      cb(null, !origin || allowedOrigins().includes(origin)),
+    credentials: true,
+  },
+})
+@UseInterceptors(AuditInterceptor)
+export class PilotGateway implements OnGatewayInit, OnGatewayDisconnect {
+  @WebSocketServer() server: Namespace;
+  // socket id -> sessions it follows, so a disconnect releases all of them
+  private following = new Map<string, Set<SessionId>>();
+  constructor(
+    private readonly pilot: PilotService,
+    private readonly parties: WatchPartyService,
+    private readonly wsAuth: WsAuthService,
+    private readonly share: ShareService,
+  ) {}
+
+  /** Handshakes without a valid JWT or share token never connect. */
+  afterInit(nsp: Namespace) {
+    nsp.use((socket, next) => {
+      const shareToken = (socket.handshake.auth as { share?: unknown } | undefined)?.share;
+      if (typeof shareToken === 'string' && shareToken) {
+        this.share
+          .verify(shareToken, { ip: socket.handshake.address, via: 'socket' })
+          .then((grant) => {
+            if (!grant) return next(new Error('Unauthorized'));
+            this.admitGuest(socket, grant);
+            next();
+          })
+          .catch(next);
+        return;
+      }
+      this.wsAuth
+        .authenticate(socket)
+        .then((user) => {
+          if (!user) return next(new Error('Unauthorized'));
+          // no organization and not cross-org staff: nothing this socket could replay
+          if (user.role !== CROSS_ORG_ROLE && user.organizationId == null) return next(new Error('Forbidden'));
+          (socket.data as { user?: unknown }).user = user;
+          next();
+        })
+        .catch(next);
+    });
+    // guests of a revoked link lose the replay at once, not at their next handshake
+    this.share.revoked$.subscribe((linkId) => {
+      for (const socket of nsp.sockets.values()) {
+        if (socketShare(socket)?.linkId === linkId) socket.disconnect(true);
+      }
+    });
+  }
+
+  /** A guest holds the link's grant instead of a user, and goes when the link expires. */
+  private admitGuest(socket: Socket, grant: ShareGrant) {
+    (socket.data as { share?: ShareGrant }).share = grant;
+    const expiry = setTimeout(() => socket.disconnect(true), grant.expiresAt.getTime() - Date.now());
+    expiry.unref();
+    socket.once('disconnect', () => clearTimeout(expiry));
+  }
+
+  private mayControl = (socketId: string) => canControl(this.server.sockets.get(socketId));
+
+  /** Session a player message acts on and where its updates go. */
+  private target(client: Socket, data: PlayerTargetDto): { sid: SessionId; key: ScopedKey; to: Sink } {
+    if (data?.roomId) {
+      const party = this.parties.assertController(data.roomId, client.id);
+      const channel = WatchPartyService.channel(party.id);
+      return { sid: channel, key: WatchPartyService.flight(party), to: this.server.to(channel) };
+    }
+    return { sid: privateSession(client), key: this.scoped(client, data), to: client };
+  }
+
+  /** The requested flight, limited to rows the socket's organization owns; guests get their link's. */
+  private scoped(client: Socket, key: FlightKey): ScopedKey {
+    const share = socketShare(client);
+    if (share) return share.key;
+    return { flightNumber: key?.flightNumber, date: key?.date, registration: key?.registration, orgId: socketScope(client) };
+  }
+
+  private tickOptionsOf(client: Socket, data: WithTickOptions): Required<TickOptions> {
+    const list: unknown[] = Array.isArray(data?.derived) ? data.derived : [];
+    const unknown = list.filter((p) => typeof p !== 'string' || !isDerived(p));
+    if (unknown.length) throw new WsException(`Unknown derived parameter(s): ${unknown.join(', ')}`);
+    if (data?.mask != null && typeof data.mask !== 'boolean') throw new WsException('mask must be a boolean');
+    return { derived: list as DerivedParameter[], mask: data?.mask === true, units: this.unitsOf(client, data) };
+  }
+
+  /** The units asked for, else the user's saved ones; guests have none saved. */
+  private unitsOf(client: Socket, data: WithTickOptions): UnitPlan {
+    const units = data?.units ?? undefined;
+    const overrides = data?.unitOverrides ?? undefined;
+    if (units !== undefined && !UNIT_SYSTEMS.includes(units as UnitSystem)) {
+      throw new WsException(`units must be one of ${UNIT_SYSTEMS.join(', ')}`);
+    }
+    if (overrides !== undefined && (typeof overrides !== 'object' || Object.values(overrides).some((u) => typeof u !== 'string'))) {
+      throw new WsException('unitOverrides must map parameter names to units');
+    }
+    const q: UnitQuery = { units: units as UnitSystem | undefined, unitOverrides: overrides as Record<string, string> | undefined };
+    try {
+      return this.pilot.unitPlan(q, socketUser(client)?.unitProfile);
+    } catch (err) {
+      throw new WsException((err as Error).message);
+    }
+  }
+
+  private follow(client: Socket, sid: SessionId) {
+    let sids = this.following.get(client.id);
+    if (!sids) this.following.set(client.id, (sids = new Set()));
+    sids.add(sid);
+    this.pilot.attach(sid, client.id);
+  }
+
+  private unfollow(client: Socket, sid: SessionId) {
+    this.following.get(client.id)?.delete(sid);
+    this.pilot.detach(sid, client.id);
+  }
 
+  // a party replays the whole flight, so only links without a window may follow one
+  private guestMayFollow(share: ShareGrant, party: WatchParty) {
+    const { key } = share;
+    const tail = normalizeRegistration(party.key.registration);
+    return (
+      !key.window &&
+      party.orgId === share.organizationId &&
+      party.key.flightNumber?.trim() === key.flightNumber &&
+      party.key.date === key.date &&
+      (!tail || tail === (key.registration ?? ''))
+    );
+  }
+
+  private broadcastState(party: WatchParty) {
+    this.server.to(WatchPartyService.channel(party.id)).emit('party:state', this.parties.state(party));
+  }
+
+  private async leaveParty(client: Socket, roomId: string) {
+    await client.leave(WatchPartyService.channel(roomId));
+    this.unfollow(client, WatchPartyService.channel(roomId));
+    const party = this.parties.leave(roomId, client.id, this.mayControl);
+    if (party) this.broadcastState(party);
+    else this.pilot.endSession(WatchPartyService.channel(roomId));
+  }
+
+  async handleDisconnect(client: Socket) {
+    for (const roomId of this.parties.membershipOf(client.id)) {
+      await this.leaveParty(client, roomId);
+    }
+    // the private cursor stops here and is evicted once idle
+    for (const sid of this.following.get(client.id) ?? []) this.pilot.detach(sid, client.id);
+    this.following.delete(client.id);
+  }
+
+@Audit('flight.join')
+@SubscribeMessage('join')
+async join(@ConnectedSocket() client: Socket, @MessageBody() data: FlightKey & WithTickOptions) {
+  const key = this.scoped(client, data);
+  const options = this.tickOptionsOf(client, data);
   // send static path once
-  const path = await this.pilot.getPath(key);
-  client.emit('telemetry:path', { path, total: path.length });
+  const path = await this.pilot.getPath(key, options);
+  client.emit('telemetry:path', { path, total: path.length, units: options.units.units });
 
-  // send current snapshot
-  client.emit('telemetry:snapshot', await this.pilot.snapshot(key));
+  // send current snapshot of this viewer's own cursor
+  const sid = privateSession(client);
+  await this.pilot.setTickOptions(sid, key, options);
+  client.emit('telemetry:snapshot', await this.pilot.snapshot(sid, key));
+  this.follow(client, sid);
   return { ok: true };
 }
 
+  @UseGuards(DriveGuard)
+  @Audit('player.control')
   @SubscribeMessage('player:resume')
-  async resume(@MessageBody() key: FlightKey) {
-    const room = `${key.flightNumber}:${key.date}`;
-    await this.pilot.resume(key, (t) => this.server.to(room).emit('telemetry:tick', t));
-    this.server.to(room).emit('telemetry:snapshot', await this.pilot.snapshot(key));
+  async resume(@ConnectedSocket() client: Socket, @MessageBody(playerMessage) data: PlayerTargetDto) {
+    const { sid, key, to } = this.target(client, data);
+    await this.pilot.resume(sid, key, (f) => to.emit('telemetry:tick', f));
+    to.emit('telemetry:snapshot', await this.pilot.snapshot(sid, key));
     return { ok: true };
   }
 
+  @UseGuards(DriveGuard)
+  @Audit('player.control')
   @SubscribeMessage('player:pause')
-  async pause(@MessageBody() key: FlightKey) {
-    await this.pilot.pause(key);
-    this.server.to(`${key.flightNumber}:${key.date}`).emit('telemetry:snapshot', await this.pilot.snapshot(key));
+  async pause(@ConnectedSocket() client: Socket, @MessageBody(playerMessage) data: PlayerTargetDto) {
+    const { sid, key, to } = this.target(client, data);
+    await this.pilot.pause(sid, key);
+    to.emit('telemetry:snapshot', await this.pilot.snapshot(sid, key));
     return { ok: true };
   }
 
+  @UseGuards(DriveGuard)
+  @Audit('player.control')
   @SubscribeMessage('player:seekSeconds')
-  async seekSeconds(@MessageBody() data: FlightKey & { seconds: number }) {
-    const snap = await this.pilot.seekSeconds(data, data.seconds);
-    this.server.to(`${data.flightNumber}:${data.date}`).emit('telemetry:snapshot', snap);
+  async seekSeconds(@ConnectedSocket() client: Socket, @MessageBody(playerMessage) data: SeekSecondsDto) {
+    const { sid, key, to } = this.target(client, data);
+    to.emit('telemetry:snapshot', await this.pilot.seekSeconds(sid, key, data.seconds));
     return { ok: true };
   }
 
+  @UseGuards(DriveGuard)
+  @Audit('player.control')
   @SubscribeMessage('player:seekPoints')
-  async seekPoints(@MessageBody() data: FlightKey & { points: number }) {
-    const snap = await this.pilot.seekPoints(data, data.points);
-    this.server.to(`${data.flightNumber}:${data.date}`).emit('telemetry:snapshot', snap);
+  async seekPoints(@ConnectedSocket() client: Socket, @MessageBody(playerMessage) data: SeekPointsDto) {
+    const { sid, key, to } = this.target(client, data);
+    to.emit('telemetry:snapshot', await this.pilot.seekPoints(sid, key, data.points));
     return { ok: true };
   }
 
+  @UseGuards(DriveGuard)
+  @Audit('player.control')
   @SubscribeMessage('player:setRate')
-  async setRate(@MessageBody() data: FlightKey & { rate: number }) {
-    const res = await this.pilot.setRate(data, data.rate);
-    this.server.to(`${data.flightNumber}:${data.date}`).emit('player:rate', res);
+  async setRate(@ConnectedSocket() client: Socket, @MessageBody(playerMessage) data: SetRateDto) {
+    const { sid, key, to } = this.target(client, data);
+    to.emit('player:rate', await this.pilot.setRate(sid, key, data.rate));
+    return { ok: true };
+  }
+
+  // ---------- watch parties ----------
+  @UseGuards(RolesGuard)
+  @Roles(...CONTROL_ROLES)
+  @Audit('party.create')
+  @SubscribeMessage('party:create')
+  async createParty(@ConnectedSocket() client: Socket, @MessageBody() key: FlightKey & WithTickOptions) {
+    const options = this.tickOptionsOf(client, key);
+    const party = this.parties.create(this.scoped(client, key), client.id);
+    const channel = WatchPartyService.channel(party.id);
+    await client.join(channel);
+    await this.pilot.setTickOptions(channel, WatchPartyService.flight(party), options);
+    client.emit('telemetry:snapshot', await this.pilot.snapshot(channel, WatchPartyService.flight(party)));
+    this.follow(client, channel);
+    this.broadcastState(party);
+    return { ok: true, roomId: party.id };
+  }
+
+  @Audit('party.join')
+  @SubscribeMessage('party:join')
+  async joinParty(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string } & WithTickOptions) {
+    const { derived } = this.tickOptionsOf(client, data);
+    const share = socketShare(client);
+    if (share && !this.guestMayFollow(share, this.parties.get(data?.roomId))) {
+      throw new WsException(`Watch party ${data.roomId} not found`);
+    }
+    const party = this.parties.join(data.roomId, client.id, canControl(client), socketScope(client));
+    const channel = WatchPartyService.channel(party.id);
+    await client.join(channel);
+
+    const flight = WatchPartyService.flight(party);
+    // every member gets the fields any member asked for: ticks go to the whole room
+    const { mask, units } = await this.pilot.setTickOptions(channel, flight, { derived }, true);
+    // the path matches the room's ticks: masked and in the units the creator chose
+    const path = await this.pilot.getPath(flight, { derived, mask, units });
+    client.emit('telemetry:path', { path, total: path.length, units: units.units });
+    client.emit('telemetry:snapshot', await this.pilot.snapshot(channel, flight));
+    this.follow(client, channel);
+    this.broadcastState(party);
+    return { ok: true, roomId: party.id, key: party.key };
+  }
+
+  @SubscribeMessage('party:leave')
+  async partyLeave(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string }) {
+    await this.leaveParty(client, data.roomId);
+    return { ok: true };
+  }
+
+  @UseGuards(RolesGuard)
+  @Roles(...CONTROL_ROLES)
+  @SubscribeMessage('party:handover')
+  handover(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string; to: string }) {
+    this.broadcastState(this.parties.handover(data.roomId, client.id, data.to, this.mayControl(data.to)));
     return { ok: true };
   }
 }
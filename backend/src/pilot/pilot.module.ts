@@ -3,17 +3,33 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { CacheModule } from '@nestjs/cache-manager';
 
 import { FdrRecord } from './fdr-record.entity';
-import { PilotRepository } from './pilot.repository'; // keep if other parts use it
 import { PilotService } from './pilot.service';
 import { PilotGateway } from './pilot.gateway';
 import { PilotController } from './pilot.controller';
+import { PilotExportController } from './pilot-export.controller';
+import { PilotSessionsController } from './pilot-sessions.controller';
+import { SharedReplayController } from './shared-replay.controller';
+import { FlightPhaseService } from './flight-phase.service';
+import { WatchPartyService } from './watch-party.service';
+import { AuthModule } from '../auth/auth.module';
+import { Flight } from '../fleet/flight.entity';
+import { AuditModule } from '../audit/audit.module';
+import { ShareModule } from '../share/share.module';
+import { ParametersModule } from '../parameters/parameters.module';
+import { AirportsModule } from '../airports/airports.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([FdrRecord]), // <-- correct entity/table
+    TypeOrmModule.forFeature([FdrRecord, Flight]), // <-- correct entity/table
     CacheModule.register({ ttl: 30, max: 1000 }),
+    AuthModule,
+    AuditModule,
+    ShareModule,
+    ParametersModule,
+    AirportsModule,
   ],
-  controllers: [PilotController],
-  providers: [PilotRepository, PilotService, PilotGateway],
+  controllers: [PilotController, PilotExportController, PilotSessionsController, SharedReplayController],
+  providers: [PilotService, PilotGateway, FlightPhaseService, WatchPartyService],
+  exports: [PilotService],
 })
 export class PilotModule {}
@@ -1,10 +1,37 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import type { Cache } from 'cache-manager';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository, Brackets } from 'typeorm';
+import { Repository, In, IsNull, MoreThan } from 'typeorm';
 import { FdrRecord } from './fdr-record.entity';
+import { FlightPhase, FlightPhaseService } from './flight-phase.service';
+import { douglasPeucker, lttb } from './simplify';
+import { buildTimeline, TimelineBuilder, baseTs } from './timeline';
+import { FrameListener, PlaybackClock, PlaybackFrame } from './playback-clock';
+import { FlightCache, FlightCacheStats, tickBytes } from './flight-cache';
+import { DERIVED_PARAMETERS, DerivedParameter, derivedAt, derivedTable, isDerived, withDerived } from './derived';
+import { analyzeQuality, maskBadSamples, QualityReport } from './data-quality';
+import { inScope, OrgScope } from '../organizations/org-scope';
+import { Flight } from '../fleet/flight.entity';
+import { Aircraft } from '../fleet/aircraft.entity';
+import { normalizeRegistration } from '../fleet/registration';
+import { BUILTIN_PARAMETERS } from '../parameters/builtin-parameters';
+import { ParametersService } from '../parameters/parameters.service';
+import { AirportsService } from '../airports/airports.service';
+import { convertTick, convertTicks, convertValue, requestedProfile, UnitPlan, UnitProfile, UnitQuery } from '../parameters/units';
 
 // Frontend/stream types
-export type FlightKey = { flightNumber: string; date: number };
+// registration tells apart aircraft that flew the same flight number on the same day
+export type FlightKey = { flightNumber: string; date: number; registration?: string };
 export type FdrTick = {
   id: number;
   ts: number; // epoch ms (UTC)
@@ -24,295 +51,857 @@ export type FdrTick = {
   ap1Engaged: number | null;
   ap2Engaged: number | null;
   airGround: number | null;
+  extra?: Record<string, number>; // registered parameters without a column, when recorded
+  phase?: FlightPhase;
 };
 
-type GetPathParams = { flightNumber: string; date: number };
-type SessionKey = string;
-const keyOf = (k: FlightKey): SessionKey => `${k.flightNumber}:${k.date}`;
+// columns behind an FdrTick; FdrRecord has no 'ts', it is built from
+// date+utcTime+fdrTime by the timeline
+const TICK_COLUMNS: (keyof FdrRecord)[] = [
+  'id',
+  'utcTime',
+  'fdrTime',
+  'date',
+  'flightNumber',
+  ...BUILTIN_PARAMETERS.map((p) => p.name),
+  'extra',
+];
+
+/** Part of a flight a caller may replay, epoch ms (inclusive); share links set it. */
+export type PlaybackWindow = { from?: number; to?: number };
+/**
+ * A flight as one caller sees it: orgId limits rows to that organization
+ * (null: all), window to that stretch of the flight.
+ */
+export type ScopedKey = FlightKey & { orgId: OrgScope; window?: PlaybackWindow };
+type GetPathParams = ScopedKey;
+/**
+ * Opt-ins on top of the recorded ticks: derived parameters, bad samples
+ * masked as null, values converted to other units (last, after the rest).
+ */
+export type TickOptions = { derived?: DerivedParameter[]; mask?: boolean; units?: UnitPlan };
+// level of detail for the path endpoints; from/to are epoch ms
+export type LodOptions = PlaybackWindow & TickOptions & { maxPoints?: number; tolerance?: number };
+type MinPoint = { ts: number; lat: number | null; lon: number | null };
+
+// FdrRecord properties that identify a row rather than being a recorded parameter
+// (and 'extra', which holds the registered parameters that have no column)
+const KEY_COLUMNS = new Set<string>(['id', 'flightNumber', 'date', 'utcTime', 'batchId', 'organizationId', 'flightId', 'extra']);
+
+export type SeriesParams = GetPathParams & { from?: number; to?: number; params: string[]; units?: UnitPlan };
+export type Series = {
+  flightNumber: string;
+  date: number;
+  registration: string | null;
+  params: string[];
+  units: Record<string, string | null>; // of each requested parameter
+  ts: number[];
+  series: Record<string, Array<number | null>>;
+};
+export type FlightQuality = QualityReport & { flightNumber: string; date: number; registration: string | null };
+
+const LOD_CACHE_TTL_MS = 10 * 60_000;
+const MIN_TOLERANCE_M = 5;
+const SESSION_SWEEP_MS = 30_000;
+const DEFAULT_SESSION_IDLE_SEC = 300;
+
+function sessionIdleMs(): number {
+  const sec = Number(process.env.SESSION_IDLE_TTL_SEC);
+  return (Number.isFinite(sec) && sec > 0 ? sec : DEFAULT_SESSION_IDLE_SEC) * 1000;
+}
+
+type ListFlightsParams = {
+  page: number;
+  pageSize: number;
+  from?: number;
+  to?: number;
+  flightNumber?: string;
+  registration?: string;
+  aircraftType?: string;
+  // airport codes or names; `airport` matches either end
+  departure?: string;
+  arrival?: string;
+  airport?: string;
+  orgId: OrgScope;
+};
+
+type FlightGroupRow = {
+  flightId: string | number;
+  flightNumber: string;
+  date: string | number;
+  registration: string;
+  aircraftType: string | null;
+  records: string | number;
+  firstId: string | number;
+  lastId: string | number;
+  maxPressureAltitude: string | number | null;
+  maxAirspeed: string | number | null;
+  minLat: string | number | null;
+  maxLat: string | number | null;
+  minLon: string | number | null;
+  maxLon: string | number | null;
+  departureAirport: string | null;
+  departureRunway: string | null;
+  arrivalAirport: string | null;
+  arrivalRunway: string | null;
+};
+
+/** A departure or arrival as the catalog and the replay header show it. */
+export type FlightEnd = {
+  airport: string; // OurAirports ident, the ICAO code where there is one
+  iata: string | null;
+  name: string | null; // null when the ident is no longer in the dataset
+  municipality: string | null;
+  runway: string | null;
+};
+export type FlightRoute = { departure: FlightEnd | null; arrival: FlightEnd | null };
+type MatchedAirports = Pick<Flight, 'departureAirport' | 'departureRunway' | 'arrivalAirport' | 'arrivalRunway'>;
+
+export type FlightSummary = {
+  flightId: number;
+  flightNumber: string;
+  date: number;
+  registration: string | null;
+  aircraftType: string | null;
+  records: number;
+  firstUtc: string;
+  lastUtc: string;
+  firstTs: number;
+  lastTs: number;
+  durationSec: number;
+  maxPressureAltitude: number | null;
+  maxAirspeed: number | null;
+  bbox: {
+    minLat: number | null;
+    maxLat: number | null;
+    minLon: number | null;
+    maxLon: number | null;
+  } | null;
+  departure: FlightEnd | null;
+  arrival: FlightEnd | null;
+};
+type FlightId = string;
+// loose on purpose, like resolveFlight's match: every spelling of the flight number shares one version
+const lodVersionOf = (k: { flightNumber?: string; date: number }) =>
+  `${(k.flightNumber ?? '').replace(/\s+/g, '').toLowerCase()}:${k.date}`;
+// cache/session id; the scope is part of it so organizations never share loaded rows
+const keyOf = (k: ScopedKey): FlightId => {
+  const reg = normalizeRegistration(k.registration);
+  const window = k.window ? `[${k.window.from ?? ''},${k.window.to ?? ''}]` : '';
+  return `${k.orgId ?? '*'}/${(k.flightNumber ?? '').trim()}:${k.date}${reg ? `@${reg}` : ''}${window}`;
+};
+const labelOf = (id: FlightId) => id.slice(id.indexOf('/') + 1);
+
+/**
+ * Who owns a playback cursor: `socket:<id>` for a viewer's private replay,
+ * `party:<id>` for a shared watch-party room.
+ */
+export type SessionId = string;
 
 type Session = {
-  key: SessionKey;
+  id: SessionId;
+  flight: FlightId;
+  orgId: OrgScope;
   data: FdrTick[];
-  idx: number;
+  clock: PlaybackClock;
+  viewers: Set<string>; // socket ids attached by the gateway
+  lastActive: number; // epoch ms of the last command or detach
+  derived: DerivedParameter[]; // added to every frame the session sends
+  mask: boolean; // data is the masked copy of the flight
+  units: UnitPlan; // frames are converted to it on the way out
+};
+
+export type SessionInfo = {
+  id: SessionId;
+  flight: string;
+  orgId: OrgScope;
+  viewers: number;
   playing: boolean;
   rate: number;
-  timer?: NodeJS.Timeout;
-  lastOnTick?: (t: FdrTick) => void;
+  idx: number;
+  total: number;
+  idleSec: number;
+  bytes: number;
+  shared: boolean; // data is the cached copy, counted under cache.bytes
 };
 
 @Injectable()
-export class PilotService {
+export class PilotService implements OnModuleInit, OnApplicationBootstrap, OnModuleDestroy {
   private log = new Logger(PilotService.name);
-  private sessions = new Map<SessionKey, Session>();
+  private sessions = new Map<SessionId, Session>();
+  private flights = new FlightCache();
+  // bumped by forgetFlight and part of every lod: key, so simplified paths cached before a re-import are not read again
+  private lodVersions = new Map<string, number>();
+  private readonly idleMs = sessionIdleMs();
+  private sweeper?: NodeJS.Timeout;
 
   constructor(
     @InjectRepository(FdrRecord)
     private readonly repo: Repository<FdrRecord>,
+    @InjectRepository(Flight)
+    private readonly flightRepo: Repository<Flight>,
+    private readonly phases: FlightPhaseService,
+    private readonly parameters: ParametersService,
+    private readonly airports: AirportsService,
+    @Inject(CACHE_MANAGER) private readonly cache: Cache,
   ) {}
 
+  onModuleInit() {
+    this.sweeper = setInterval(() => this.evictIdle(), SESSION_SWEEP_MS);
+    this.sweeper.unref();
+  }
+
+  // after every module is up: the airport dataset loads in AirportsService.onModuleInit
+  onApplicationBootstrap() {
+    this.backfillAirports().catch((err) => this.log.error(`airport backfill failed: ${(err as Error).message}`));
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweeper);
+    for (const id of [...this.sessions.keys()]) this.endSession(id);
+  }
+
   // ---------- helpers ----------
   private toNum = (v: any) => (v == null ? null : Number(v));
 
-  private computeTs(date: number, utcTime: string): number {
-    // date: yyyymmdd, utcTime: HH:MM:SS
-    const y = Math.floor(date / 10000);
-    const m = Math.floor((date % 10000) / 100);
-    const d = date % 100;
-    const [hh, mm, ss] = (utcTime || '00:00:00')
-      .split(':')
-      .map((n) => parseInt(n, 10) || 0);
-    return Date.UTC(y, m - 1, d, hh, mm, ss);
+  private mapRecord(r: FdrRecord, ts: number): FdrTick {
+    const tick = { id: r.id, ts, utcTime: r.utcTime, date: r.date, flightNumber: r.flightNumber } as FdrTick;
+    for (const { name } of BUILTIN_PARAMETERS) tick[name] = this.toNum(r[name]);
+    if (r.extra) tick.extra = r.extra;
+    return tick;
   }
 
-  private mapRecord(r: FdrRecord): FdrTick {
-    return {
-      id: r.id,
-      ts: this.computeTs(r.date, r.utcTime),
-      utcTime: r.utcTime,
-      date: r.date,
-      flightNumber: r.flightNumber,
-      latitude: this.toNum(r.latitude),
-      longitude: this.toNum(r.longitude),
-      pressureAltitude: this.toNum(r.pressureAltitude),
-      pitchAngle: this.toNum(r.pitchAngle),
-      rollAngle: this.toNum(r.rollAngle),
-      magHeading: this.toNum(r.magHeading),
-      computedAirspeed: this.toNum(r.computedAirspeed),
-      verticalSpeed: this.toNum(r.verticalSpeed),
-      flapPosition: this.toNum(r.flapPosition),
-      gearSelectionUp: this.toNum(r.gearSelectionUp),
-      ap1Engaged: this.toNum(r.ap1Engaged),
-      ap2Engaged: this.toNum(r.ap2Engaged),
-      airGround: this.toNum(r.airGround),
-    };
+  /** Rows in id order -> ticks on the monotonic, de-duplicated timeline. */
+  private toTicks(rows: FdrRecord[]): FdrTick[] {
+    return buildTimeline(rows).map(({ row, ts }) => this.mapRecord(row, ts));
   }
 
-  private async loadFlight(k: FlightKey): Promise<FdrTick[]> {
-    const fn = (k.flightNumber ?? '').trim();
-    // Fast path: exact match
-    let rows = await this.repo.find({
-      where: { flightNumber: fn, date: k.date },
-      order: { id: 'ASC' },
-      select: [
-        'id',
-        'utcTime',
-        'date',
-        'flightNumber',
-        'latitude',
-        'longitude',
-        'pressureAltitude',
-        'pitchAngle',
-        'rollAngle',
-        'magHeading',
-        'computedAirspeed',
-        'verticalSpeed',
-        'flapPosition',
-        'gearSelectionUp',
-        'ap1Engaged',
-        'ap2Engaged',
-        'airGround',
-        // NOTE: FdrRecord table does not have 'ts'; we compute it from date+utcTime.
-      ] as (keyof FdrRecord)[],
-    });
+  private withPhases(ticks: FdrTick[]): FdrTick[] {
+    const labels = this.phases.label(ticks);
+    ticks.forEach((t, i) => (t.phase = labels[i]));
+    return ticks;
+  }
 
-    // Fallback: case/space-insensitive
-    if (!rows.length) {
-      rows = await this.repo
-        .createQueryBuilder('r')
-        .where('r.date = :date', { date: k.date })
-        .andWhere(
-          new Brackets((qb) => {
-            qb.where(
-              'LOWER(REPLACE(r.flightNumber, \' \', \'\')) = LOWER(REPLACE(:fn, \' \', \'\'))',
-              { fn },
-            );
-          }),
-        )
-        .orderBy('r.id', 'ASC')
-        .getMany();
-    }
+  private async loadFlight(k: ScopedKey): Promise<FdrTick[]> {
+    const flight = await this.resolveFlight(k);
+    const rows = flight
+      ? await this.repo.find({ where: { flightId: flight.id }, order: { id: 'ASC' }, select: TICK_COLUMNS })
+      : [];
 
-    const out = rows.map((r) => this.mapRecord(r));
-    this.log.debug(`loadFlight(${fn}, ${k.date}) -> ${out.length} rows`);
+    const out = this.withPhases(this.toTicks(rows));
+    this.log.debug(`loadFlight(${keyOf(k)}) -> ${out.length} rows`);
     return out;
   }
 
   // ---------- playback/session ----------
-  private async ensureSession(k: FlightKey): Promise<Session> {
-    const key = keyOf(k);
-    const existing = this.sessions.get(key);
-    if (existing) return existing;
-
-    const data = await this.loadFlight(k);
-    const s: Session = { key, data, idx: 0, playing: false, rate: 1 };
-    this.sessions.set(key, s);
+  /**
+   * Session `sid` positioned on flight `k`; switching flights, or `mask`ing
+   * differently, restarts the cursor. Without `mask` the session keeps its own.
+   */
+  private async ensureSession(sid: SessionId, k: ScopedKey, mask?: boolean): Promise<Session> {
+    const flight = keyOf(k);
+    const existing = this.sessions.get(sid);
+    const masked = mask ?? existing?.mask ?? false;
+    if (existing?.flight === flight && existing.mask === masked) {
+      existing.lastActive = Date.now();
+      return existing;
+    }
+
+    // the clock interpolates between ticks, so masking has to happen in its data
+    const data = await this.getPath(k, { mask: masked });
+    // another call may have opened the session while we were loading
+    const raced = this.sessions.get(sid);
+    if (raced?.flight === flight && raced.mask === masked) return raced;
+    if (raced) this.release(raced);
+
+    const s: Session = {
+      id: sid,
+      flight,
+      orgId: k.orgId,
+      data,
+      clock: new PlaybackClock(data),
+      viewers: raced?.viewers ?? new Set(),
+      lastActive: Date.now(),
+      derived: raced?.derived ?? [],
+      mask: masked,
+      units: raced?.units ?? this.unitPlan(),
+    };
+    this.flights.pin(flight, data);
+    this.sessions.set(sid, s);
     return s;
   }
 
-  private scheduleNext(s: Session, onTick: (t: FdrTick) => void) {
-    if (!s.playing) return;
-    const cur = s.data[s.idx];
-    const next = s.data[s.idx + 1];
+  private release(s: Session) {
+    s.clock.stop();
+    this.flights.unpin(s.flight, s.data);
+  }
 
-    const delay = next ? Math.max(10, Math.floor((next.ts - cur.ts) / s.rate)) : 0;
+  endSession(sid: SessionId) {
+    const s = this.sessions.get(sid);
+    if (!s) return;
+    this.release(s);
+    this.sessions.delete(sid);
+    this.log.debug(`session ${sid} closed`);
+  }
 
-    s.timer = setTimeout(() => {
-      if (!s.playing) return;
-      onTick(s.data[s.idx]);
-      s.idx++;
-      if (s.idx >= s.data.length) {
-        s.playing = false;
-        return;
+  /** A socket started following `sid`. */
+  attach(sid: SessionId, socketId: string) {
+    this.sessions.get(sid)?.viewers.add(socketId);
+  }
+
+  /** A socket stopped following `sid`; the last one out stops the clock. */
+  detach(sid: SessionId, socketId: string) {
+    const s = this.sessions.get(sid);
+    if (!s?.viewers.delete(socketId) || s.viewers.size) return;
+    s.clock.stop();
+    s.lastActive = Date.now();
+  }
+
+  /** Drop sessions nobody has watched for the idle TTL. */
+  evictIdle(now = Date.now()) {
+    for (const s of [...this.sessions.values()]) {
+      if (s.viewers.size || now - s.lastActive < this.idleMs) continue;
+      this.endSession(s.id);
+      this.log.log(`evicted idle session ${s.id} (${s.flight})`);
+    }
+  }
+
+  /** Sessions on flights the scope may see; cache figures are process-wide. */
+  sessionStats(scope: OrgScope): { sessions: SessionInfo[]; cache: FlightCacheStats } {
+    const now = Date.now();
+    const visible = [...this.sessions.values()].filter((s) => inScope(scope, s.orgId));
+    const sessions = visible.map((s) => {
+      const f = s.clock.frame();
+      return {
+        id: s.id,
+        flight: labelOf(s.flight),
+        orgId: s.orgId,
+        viewers: s.viewers.size,
+        playing: s.clock.isPlaying,
+        rate: s.clock.currentRate,
+        idx: f?.idx ?? 0,
+        total: s.data.length,
+        idleSec: Math.round((now - s.lastActive) / 1000),
+        bytes: tickBytes(s.data),
+        shared: this.flights.holds(s.flight, s.data),
+      };
+    });
+    return { sessions, cache: this.flights.stats() };
+  }
+
+  /** Drop cached data after the flight's rows changed; open sessions keep their copy. */
+  forgetFlight(f: Pick<Flight, 'flightNumber' | 'date' | 'registration' | 'organizationId'>) {
+    // every key the flight may be cached under: by its org or cross-org, with or without the tail
+    for (const orgId of [f.organizationId, null]) {
+      for (const registration of [f.registration, undefined]) {
+        this.flights.delete(keyOf({ flightNumber: f.flightNumber, date: f.date, registration, orgId }));
       }
-      this.scheduleNext(s, onTick);
-    }, delay);
+    }
+    const version = lodVersionOf(f);
+    this.lodVersions.set(version, (this.lodVersions.get(version) ?? 0) + 1);
   }
 
-  async snapshot(k: FlightKey) {
-    const s = await this.ensureSession(k);
+  async snapshot(sid: SessionId, k: ScopedKey) {
+    const s = await this.ensureSession(sid, k);
+    const f = s.clock.frame();
     return {
-      key: s.key,
-      idx: s.idx,
+      key: labelOf(s.flight),
+      idx: f?.idx ?? 0,
       total: s.data.length,
-      playing: s.playing,
-      rate: s.rate,
-      point: s.data[s.idx] ?? null,
+      playing: s.clock.isPlaying,
+      rate: s.clock.currentRate,
+      phase: f?.point.phase ?? null,
+      point: f ? this.framePoint(s, f) : null,
+      units: s.units.units,
     };
   }
 
-  async resume(k: FlightKey, onTick: (t: FdrTick) => void) {
-    const s = await this.ensureSession(k);
-    s.lastOnTick = onTick;
-    if (s.playing || !s.data.length) return;
-    s.playing = true;
-    this.scheduleNext(s, onTick);
-    this.log.log(`▶️ resume ${s.key}`);
+  /**
+   * What the session's frames carry from now on. A private cursor takes its
+   * viewer's choice; a party `merge`s the derived parameters each member asks
+   * for and keeps the masking and units its creator chose. Returns the options
+   * in effect.
+   */
+  async setTickOptions(
+    sid: SessionId,
+    k: ScopedKey,
+    { derived = [], mask = false, units }: TickOptions,
+    merge = false,
+  ): Promise<Required<TickOptions>> {
+    const s = await this.ensureSession(sid, k, merge ? undefined : mask);
+    s.derived = [...new Set(merge ? [...s.derived, ...derived] : derived)];
+    if (!merge) s.units = units ?? this.unitPlan();
+    return { derived: s.derived, mask: s.mask, units: s.units };
+  }
+
+  private framePoint(s: Session, f: PlaybackFrame): FdrTick {
+    const point = s.derived.length ? { ...f.point, ...derivedAt(derivedTable(s.data), f.idx, s.derived) } : f.point;
+    return convertTick(point, s.units);
   }
 
-  async pause(k: FlightKey) {
-    const s = await this.ensureSession(k);
-    s.playing = false;
-    if (s.timer) clearTimeout(s.timer);
-    this.log.log(`⏸️ pause ${s.key}`);
+  async resume(sid: SessionId, k: ScopedKey, onFrame: FrameListener) {
+    const s = await this.ensureSession(sid, k);
+    if (s.clock.isPlaying) return;
+    s.clock.play((f) => onFrame({ ...f, point: this.framePoint(s, f) }));
+    this.log.log(`▶️ resume ${s.flight} (${sid})`);
   }
 
-  async setRate(k: FlightKey, rate: number) {
-    const s = await this.ensureSession(k);
-    s.rate = Math.max(0.1, rate);
-    if (s.playing) {
-      await this.pause(k);
-      if (s.lastOnTick) await this.resume(k, s.lastOnTick);
-    }
-    return { rate: s.rate };
+  async pause(sid: SessionId, k: ScopedKey) {
+    const s = await this.ensureSession(sid, k);
+    s.clock.pause();
+    this.log.log(`⏸️ pause ${s.flight} (${sid})`);
+  }
+
+  async setRate(sid: SessionId, k: ScopedKey, rate: number) {
+    const s = await this.ensureSession(sid, k);
+    s.clock.setRate(rate);
+    return { rate: s.clock.currentRate };
   }
 
-  async seekSeconds(k: FlightKey, seconds: number) {
-    const s = await this.ensureSession(k);
-    if (!s.data.length) return this.snapshot(k);
+  async seekSeconds(sid: SessionId, k: ScopedKey, seconds: number) {
+    const s = await this.ensureSession(sid, k);
+    s.clock.seekTo(s.clock.position + seconds * 1000);
+    return this.snapshot(sid, k);
+  }
 
-    const target = (s.data[s.idx]?.ts ?? s.data[0].ts) + seconds * 1000;
+  async seekPoints(sid: SessionId, k: ScopedKey, delta: number) {
+    const s = await this.ensureSession(sid, k);
+    s.clock.seekIdx(s.clock.idx + delta);
+    return this.snapshot(sid, k);
+  }
 
-    // binary search by ts
-    let lo = 0,
-      hi = s.data.length - 1,
-      ans = 0;
-    while (lo <= hi) {
-      const mid = (lo + hi) >> 1;
-      if (s.data[mid].ts <= target) {
-        ans = mid;
-        lo = mid + 1;
-      } else hi = mid - 1;
+  /**
+   * Minimal path for polyline/chart: only ts, lat, lon.
+   * tolerance simplifies the track (Douglas-Peucker); maxPoints raises the
+   * tolerance until the track fits.
+   */
+  async getPathMin(k: GetPathParams, lod: LodOptions = {}): Promise<MinPoint[]> {
+    const cacheKey = this.lodKey('min', k, lod);
+    if (cacheKey) {
+      const hit = await this.cache.get<MinPoint[]>(cacheKey);
+      if (hit) return hit;
     }
-    s.idx = ans;
-    return this.snapshot(k);
-  }
-
-  async seekPoints(k: FlightKey, delta: number) {
-    const s = await this.ensureSession(k);
-    s.idx = Math.max(0, Math.min(s.data.length - 1, s.idx + delta));
-    return this.snapshot(k);
-  }
-  private toTs(date: number, utc?: string | null): number {
-    const y = Math.floor(date / 10000);
-    const m = Math.floor((date % 10000) / 100);
-    const d = date % 100;
-    let hh = 0, mm = 0, ss = 0;
-    if (utc) {
-      const mtx = /^(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?$/.exec(utc);
-      if (mtx) {
-        hh = Number(mtx[1]) || 0;
-        mm = Number(mtx[2]) || 0;
-        ss = Number(mtx[3]) || 0;
+
+    const flight = await this.resolveFlight(k);
+    const rows = flight
+      ? await this.repo.find({
+          where: { flightId: flight.id },
+          order: { id: 'ASC' },
+          // only fetch what's needed to build the response
+          select: ['date', 'utcTime', 'fdrTime', 'latitude', 'longitude'],
+        })
+      : [];
+
+    const all = this.inWindow(
+      buildTimeline(rows).map(({ row: r, ts }) => ({
+        ts,
+        lat: r.latitude == null ? null : Number(r.latitude),
+        lon: r.longitude == null ? null : Number(r.longitude),
+      })),
+      lod,
+    );
+    if (!cacheKey) return all;
+
+    const latLon = (p: MinPoint): [number | null, number | null] => [p.lat, p.lon];
+    let tol = lod.tolerance ?? 0;
+    let out = tol > 0 ? douglasPeucker(all, tol, latLon) : all;
+    if (lod.maxPoints) {
+      tol = Math.max(tol, MIN_TOLERANCE_M);
+      while (out.length > lod.maxPoints) {
+        out = douglasPeucker(all, tol, latLon);
+        tol *= 2;
       }
     }
-    return Date.UTC(y, m - 1, d, hh, mm, ss);
+
+    await this.cache.set(cacheKey, out, LOD_CACHE_TTL_MS);
+    return out;
   }
 
   /**
-   * Minimal path for polyline/chart: only ts, lat, lon
+   * getPath with level of detail: window by time, simplify the track by
+   * tolerance (Douglas-Peucker), then cap the series with LTTB on altitude.
+   * Results are cached per flight, tolerance, cap and window.
    */
-  async getPathMin({ flightNumber, date }: GetPathParams): Promise<Array<{ ts: number; lat: number | null; lon: number | null }>> {
-    const rows = await this.repo.find({
-      where: { flightNumber, date },
-      order: { id: 'ASC' },
-      // only fetch what's needed to build the response
-      select: ['date', 'utcTime', 'latitude', 'longitude'],
-    });
+  async getPathLod(k: GetPathParams, lod: LodOptions): Promise<{ path: FdrTick[]; total: number }> {
+    // the cache holds stored units, whatever the caller reads them in
+    const inUnits = (res: { path: FdrTick[]; total: number }) =>
+      lod.units ? { ...res, path: convertTicks(res.path, lod.units) } : res;
+    const cacheKey = this.lodKey('path', k, lod);
+    if (cacheKey) {
+      const hit = await this.cache.get<{ path: FdrTick[]; total: number }>(cacheKey);
+      if (hit) return inUnits(hit);
+    }
+
+    const ticks = await this.getPath(k, { mask: lod.mask });
+    const full = this.inWindow(ticks, lod);
+    // derived values come from the neighbours in the flight, not in the simplified path
+    const derive = (path: FdrTick[]) => (lod.derived?.length ? withDerived(ticks, lod.derived, path) : path);
+    if (!cacheKey) return inUnits({ path: derive(full), total: full.length });
 
-    return rows.map((r) => ({
-      ts: this.toTs(r.date, r.utcTime),
-      lat: r.latitude == null ? null : Number(r.latitude),
-      lon: r.longitude == null ? null : Number(r.longitude),
-    }));
+    let path = full;
+    if (lod.tolerance) path = douglasPeucker(path, lod.tolerance, (p) => [p.latitude, p.longitude]);
+    if (lod.maxPoints) path = lttb(path, lod.maxPoints, (p) => p.ts, (p) => p.pressureAltitude);
+
+    const res = { path: derive(path), total: full.length };
+    await this.cache.set(cacheKey, res, LOD_CACHE_TTL_MS);
+    return inUnits(res);
+  }
+
+  private inWindow<T extends { ts: number }>(points: T[], { from, to }: PlaybackWindow): T[] {
+    if (from == null && to == null) return points;
+    return points.filter((p) => (from == null || p.ts >= from) && (to == null || p.ts <= to));
+  }
+
+  /** null when nothing needs simplifying (and so nothing is worth caching). */
+  private lodKey(kind: string, k: GetPathParams, lod: LodOptions): string | null {
+    if (!lod.tolerance && !lod.maxPoints) return null;
+    const ticks = `${lod.derived?.join(',') ?? ''}${lod.mask ? ':masked' : ''}`;
+    const version = this.lodVersions.get(lodVersionOf(k)) ?? 0;
+    return `lod:${kind}:v${version}:${keyOf(k)}:${lod.tolerance ?? ''}:${lod.maxPoints ?? ''}:${lod.from ?? ''}:${lod.to ?? ''}:${ticks}`;
   }
+
   // ---------- HTTP API ----------
-  async getPath({ flightNumber, date }: GetPathParams) {
-    const fn = (flightNumber ?? '').trim();
+  /**
+   * Full flight on the tick timeline, served from the shared flight cache.
+   * A windowed key gets its own slice, which the cache does not hold.
+   * `mask` nulls the samples the quality checks flag, `derived` adds those
+   * parameters to copies of the ticks (worked out from the masked values),
+   * `units` converts the copies.
+   */
+  async getPath(k: GetPathParams, { derived = [], mask = false, units }: TickOptions = {}): Promise<FdrTick[]> {
+    const { window, ...flight } = k;
+    const data = await this.flights.get(keyOf(flight), () => this.loadFlight(flight));
+    const clean = mask ? maskBadSamples(data) : data;
+    const ticks = window ? this.inWindow(clean, window) : clean;
+    const full = derived.length ? withDerived(ticks, derived) : ticks;
+    return units ? convertTicks(full, units) : full;
+  }
+
+  /**
+   * Same rows as getPath, yielded in id-ordered chunks so callers never hold
+   * the whole flight in memory. Each call starts a fresh pass over the table.
+   */
+  async *streamPath(k: GetPathParams, chunkSize = 2000): AsyncGenerator<FdrTick[]> {
+    const flight = await this.resolveFlight(k);
+    if (!flight) return;
+
+    // the timeline carries day rollover and the open second across chunks
+    const timeline = new TimelineBuilder<FdrRecord>();
+    let lastId = 0;
+    for (;;) {
+      const rows = await this.repo.find({
+        where: { flightId: flight.id, id: MoreThan(lastId) },
+        order: { id: 'ASC' },
+        select: TICK_COLUMNS,
+        take: chunkSize,
+      });
+      const stamped = rows.length ? timeline.push(rows) : timeline.end();
+      if (stamped.length) yield stamped.map(({ row, ts }) => this.mapRecord(row, ts));
+      if (!rows.length) return;
+      lastId = rows[rows.length - 1].id;
+      if (rows.length < chunkSize) {
+        const rest = timeline.end();
+        if (rest.length) yield rest.map(({ row, ts }) => this.mapRecord(row, ts));
+        return;
+      }
+    }
+  }
+
+  /**
+   * Units a response is given in: what the request asks for, else the
+   * user's saved profile, else imperial. Overrides a request names must
+   * apply; saved ones that no longer do are skipped.
+   */
+  unitPlan(q: UnitQuery = {}, saved?: UnitProfile | null): UnitPlan {
+    return this.parameters.unitPlan(requestedProfile(q, saved), q.units != null || q.unitOverrides != null);
+  }
+
+  /** Recorded parameters a client may ask for by name: FdrRecord columns, then the registered rest. */
+  seriesParameters(): string[] {
+    const columns = this.repo.metadata.columns.map((c) => c.propertyName).filter((p) => !KEY_COLUMNS.has(p));
+    return [...columns, ...this.parameters.extraNames()];
+  }
+
+  /**
+   * Columnar slice of a flight: a ts array plus one array per requested
+   * parameter, recorded or derived, limited to [from, to] when given.
+   */
+  async getSeries({ from, to, params, units = this.unitPlan(), ...k }: SeriesParams): Promise<Series> {
+    const allowed = [...this.seriesParameters(), ...DERIVED_PARAMETERS];
+    const unknown = params.filter((p) => !allowed.includes(p));
+    if (unknown.length) {
+      throw new BadRequestException(
+        `Unknown parameter(s): ${unknown.join(', ')}. Allowed: ${allowed.join(', ')}`,
+      );
+    }
+    const wanted = [...new Set(params)];
+    const extras = new Set(this.parameters.extraNames());
+    const columns = wanted.filter((p) => !isDerived(p) && !extras.has(p)) as (keyof FdrRecord)[];
+    const inExtra = wanted.filter((p) => extras.has(p));
+    const derived = wanted.filter(isDerived);
+
+    // derivations read the whole tick
+    const base: (keyof FdrRecord)[] = derived.length ? TICK_COLUMNS : ['id', 'date', 'utcTime', 'fdrTime'];
+    const flight = await this.resolveFlight(k);
+    const rows = flight
+      ? await this.repo.find({
+          where: { flightId: flight.id },
+          order: { id: 'ASC' },
+          select: [...new Set([...base, ...columns, ...(inExtra.length ? ['extra' as const] : [])])],
+        })
+      : [];
+    const stamped = buildTimeline(rows);
+    const table = derived.length ? derivedTable(stamped.map(({ row, ts }) => this.mapRecord(row, ts))) : null;
+
+    const out: Series = {
+      flightNumber: flight?.flightNumber ?? k.flightNumber.trim(),
+      date: k.date,
+      registration: flight?.registration || null,
+      params: wanted,
+      units: Object.fromEntries(wanted.map((p) => [p, units.units[p] ?? null])),
+      ts: [],
+      series: Object.fromEntries(wanted.map((p) => [p, [] as Array<number | null>])),
+    };
+    stamped.forEach(({ row: r, ts }, i) => {
+      if ((from != null && ts < from) || (to != null && ts > to)) return;
+      out.ts.push(ts);
+      for (const p of columns) out.series[p].push(this.toNum(r[p]));
+      for (const p of inExtra) out.series[p].push(r.extra?.[p] ?? null);
+      if (table) for (const [p, v] of Object.entries(derivedAt(table, i, derived))) out.series[p].push(v ?? null);
+    });
+    for (const p of wanted) {
+      const factor = units.factors[p];
+      if (factor) out.series[p] = out.series[p].map((v) => convertValue(v, factor));
+    }
+    return out;
+  }
+
+  /**
+   * Data-quality report for the whole flight: position jumps, frozen and
+   * out-of-range values, gaps, missing blocks and duplicate frames, scored 0-100.
+   */
+  async getQuality(k: GetPathParams): Promise<FlightQuality> {
+    const flight = await this.resolveFlight(k);
+    if (flight) return this.flightQuality(flight);
+    return { flightNumber: k.flightNumber.trim(), date: k.date, registration: null, ...analyzeQuality([]) };
+  }
+
+  /** getQuality of a flight already resolved, e.g. one just imported. */
+  async flightQuality(flight: Pick<Flight, 'id' | 'flightNumber' | 'date' | 'registration'>): Promise<FlightQuality> {
+    const rows = await this.repo.find({ where: { flightId: flight.id }, order: { id: 'ASC' }, select: TICK_COLUMNS });
+    // the timeline drops repeated frames, so duplicates are counted on the way in
+    const timeline = new TimelineBuilder<FdrRecord>();
+    const ticks = [...timeline.push(rows), ...timeline.end()].map(({ row, ts }) => this.mapRecord(row, ts));
+    return {
+      flightNumber: flight.flightNumber,
+      date: flight.date,
+      registration: flight.registration || null,
+      ...analyzeQuality(ticks, timeline.duplicates.map((d) => d.ts)),
+    };
+  }
 
-    // exact
-    let rows = await this.repo.find({
-      where: { flightNumber: fn, date },
+  // ---------- departure/arrival ----------
+  /**
+   * Identify where a flight departed and arrived from its committed rows and
+   * keep the result on the flight; a flight without rows is matched to nothing.
+   */
+  async matchAirports(flight: Pick<Flight, 'id'>): Promise<FlightRoute> {
+    const rows = await this.repo.find({
+      where: { flightId: flight.id },
       order: { id: 'ASC' },
-      select: [
-        'id',
-        'utcTime',
-        'date',
-        'flightNumber',
-        'latitude',
-        'longitude',
-        'pressureAltitude',
-        'pitchAngle',
-        'rollAngle',
-        'magHeading',
-        'computedAirspeed',
-        'verticalSpeed',
-        'flapPosition',
-        'gearSelectionUp',
-        'ap1Engaged',
-        'ap2Engaged',
-        'airGround',
-      ] as (keyof FdrRecord)[],
+      select: ['id', 'date', 'utcTime', 'fdrTime', 'latitude', 'longitude', 'magHeading', 'airGround', 'computedAirspeed'],
     });
+    const { departure, arrival } = this.airports.identify(buildTimeline(rows).map(({ row, ts }) => this.mapRecord(row, ts)));
+    const matched: MatchedAirports = {
+      departureAirport: departure?.airport.ident ?? null,
+      departureRunway: departure?.runway ?? null,
+      arrivalAirport: arrival?.airport.ident ?? null,
+      arrivalRunway: arrival?.runway ?? null,
+    };
+    await this.flightRepo.update({ id: flight.id }, { ...matched, airportsMatchedAt: new Date() });
+    return this.routeOf(matched);
+  }
+
+  /**
+   * Departure and arrival for the replay header, as matched at import; a
+   * flight the backfill has not reached yet has neither.
+   */
+  async getRoute(k: GetPathParams): Promise<FlightRoute> {
+    const flight = await this.resolveFlight(k);
+    if (!flight) return { departure: null, arrival: null };
+    return this.routeOf(flight);
+  }
+
+  private routeOf(f: MatchedAirports): FlightRoute {
+    return {
+      departure: this.flightEnd(f.departureAirport, f.departureRunway),
+      arrival: this.flightEnd(f.arrivalAirport, f.arrivalRunway),
+    };
+  }
+
+  private flightEnd(ident: string | null, runway: string | null): FlightEnd | null {
+    if (!ident) return null;
+    const a = this.airports.get(ident);
+    return { airport: ident, iata: a?.iata ?? null, name: a?.name ?? null, municipality: a?.municipality ?? null, runway };
+  }
+
+  /** Flights imported before airports were matched, one at a time in the background. */
+  private async backfillAirports() {
+    const pending = await this.flightRepo.find({ where: { airportsMatchedAt: IsNull() }, select: ['id'] });
+    for (const f of pending) await this.matchAirports(f);
+    if (pending.length) this.log.log(`matched airports of ${pending.length} earlier flights`);
+  }
+
+  /**
+   * The flight a key names within the caller's scope. Flight numbers match
+   * exactly, then case/space-insensitively; a key without a registration must
+   * not match the flights of several aircraft.
+   */
+  async resolveFlight(k: ScopedKey): Promise<Flight | null> {
+    const fn = (k.flightNumber ?? '').trim();
+    const registration = normalizeRegistration(k.registration);
+    const qb = this.flightRepo.createQueryBuilder('f').where('f.date = :date', { date: k.date });
+    if (k.orgId !== null) qb.andWhere('f.organizationId = :org', { org: k.orgId });
+    if (registration) qb.andWhere('f.registration = :registration', { registration });
 
-    // fallback: case/space-insensitive
-    if (!rows.length) {
-      rows = await this.repo
-        .createQueryBuilder('r')
-        .where('r.date = :date', { date })
-        .andWhere(
-          new Brackets((qb) => {
-            qb.where(
-              'LOWER(REPLACE(r.flightNumber, \' \', \'\')) = LOWER(REPLACE(:fn, \' \', \'\'))',
-              { fn },
-            );
-          }),
-        )
-        .orderBy('r.id', 'ASC')
+    let found = await qb.clone().andWhere('f.flightNumber = :fn', { fn }).getMany();
+    if (!found.length) {
+      found = await qb
+        .andWhere('LOWER(REPLACE(f.flightNumber, \' \', \'\')) = LOWER(REPLACE(:fn, \' \', \'\'))', { fn })
         .getMany();
     }
+    if (found.length > 1) {
+      const tails = found.map((f) => f.registration || 'unregistered').join(', ');
+      throw new ConflictException(`${fn} on ${k.date} matches ${found.length} flights (${tails}); pass a registration`);
+    }
+    return found[0] ?? null;
+  }
 
-    const out = rows.map((r) => this.mapRecord(r));
-    this.log.debug(`getPath(${fn}, ${date}) -> ${out.length} rows`);
-    return out;
+  /**
+   * Phase intervals (taxi, takeoff, climb, ...) for the whole flight
+   */
+  async getPhases(k: GetPathParams) {
+    const path = await this.getPath(k);
+    return this.phases.intervals(path, path.map((t) => t.phase!));
+  }
+
+  /**
+   * Flight catalog: one row per flight (aircraft, flight number, date) with summary stats
+   */
+  async listFlights({
+    page,
+    pageSize,
+    from,
+    to,
+    flightNumber,
+    registration,
+    aircraftType,
+    departure,
+    arrival,
+    airport,
+    orgId,
+  }: ListFlightsParams) {
+    const qb = this.repo
+      .createQueryBuilder('r')
+      .innerJoin(Flight, 'f', 'f.id = r.flightId')
+      .leftJoin(Aircraft, 'a', 'a.id = f.aircraftId');
+    if (orgId !== null) qb.andWhere('f.organizationId = :org', { org: orgId });
+    if (from != null) qb.andWhere('f.date >= :from', { from });
+    if (to != null) qb.andWhere('f.date <= :to', { to });
+    const prefix = (flightNumber ?? '').trim();
+    if (prefix) {
+      qb.andWhere('f.flightNumber LIKE :prefix', {
+        prefix: `${prefix.replace(/[\\%_]/g, '\\$&')}%`,
+      });
+    }
+    const tail = normalizeRegistration(registration);
+    if (tail) qb.andWhere('f.registration = :tail', { tail });
+    if (aircraftType?.trim()) qb.andWhere('a.type = :type', { type: aircraftType.trim().toUpperCase() });
+    if (departure?.trim()) qb.andWhere('f.departureAirport IN (:...dep)', { dep: this.airports.identsFor(departure) });
+    if (arrival?.trim()) qb.andWhere('f.arrivalAirport IN (:...arr)', { arr: this.airports.identsFor(arrival) });
+    if (airport?.trim()) {
+      qb.andWhere('(f.departureAirport IN (:...apt) OR f.arrivalAirport IN (:...apt))', {
+        apt: this.airports.identsFor(airport),
+      });
+    }
+
+    const countRow = await qb
+      .clone()
+      .select('COUNT(DISTINCT r.flightId)', 'total')
+      .getRawOne<{ total: string | number }>();
+    const total = Number(countRow?.total ?? 0);
+
+    const raw = await qb
+      .select('f.id', 'flightId')
+      .addSelect('f.flightNumber', 'flightNumber')
+      .addSelect('f.date', 'date')
+      .addSelect('f.registration', 'registration')
+      .addSelect('a.type', 'aircraftType')
+      .addSelect('f.departureAirport', 'departureAirport')
+      .addSelect('f.departureRunway', 'departureRunway')
+      .addSelect('f.arrivalAirport', 'arrivalAirport')
+      .addSelect('f.arrivalRunway', 'arrivalRunway')
+      .addSelect('COUNT(*)', 'records')
+      // first/last by recording order: MIN/MAX(utcTime) is wrong across midnight
+      .addSelect('MIN(r.id)', 'firstId')
+      .addSelect('MAX(r.id)', 'lastId')
+      .addSelect('MAX(r.pressureAltitude)', 'maxPressureAltitude')
+      .addSelect('MAX(r.computedAirspeed)', 'maxAirspeed')
+      .addSelect('MIN(r.latitude)', 'minLat')
+      .addSelect('MAX(r.latitude)', 'maxLat')
+      .addSelect('MIN(r.longitude)', 'minLon')
+      .addSelect('MAX(r.longitude)', 'maxLon')
+      .groupBy('f.id')
+      .addGroupBy('a.id')
+      .orderBy('f.date', 'DESC')
+      .addOrderBy('f.flightNumber', 'ASC')
+      .addOrderBy('f.registration', 'ASC')
+      .offset((page - 1) * pageSize)
+      .limit(pageSize)
+      .getRawMany<FlightGroupRow>();
+
+    const ends = raw.length
+      ? await this.repo.find({
+          where: { id: In(raw.flatMap((g) => [Number(g.firstId), Number(g.lastId)])) },
+          select: ['id', 'utcTime'],
+        })
+      : [];
+    const utcById = new Map(ends.map((r) => [r.id, r.utcTime]));
+
+    const items: FlightSummary[] = raw.map((g) => {
+      const date = Number(g.date);
+      const firstUtc = utcById.get(Number(g.firstId)) ?? '';
+      const lastUtc = utcById.get(Number(g.lastId)) ?? '';
+      const firstTs = baseTs(date, firstUtc);
+      let lastTs = baseTs(date, lastUtc);
+      if (lastTs < firstTs) lastTs += 86_400_000; // crossed 00:00 UTC
+      const hasBox = g.minLat != null && g.minLon != null;
+      return {
+        flightId: Number(g.flightId),
+        flightNumber: g.flightNumber,
+        date,
+        registration: g.registration || null,
+        aircraftType: g.aircraftType ?? null,
+        records: Number(g.records),
+        firstUtc,
+        lastUtc,
+        firstTs,
+        lastTs,
+        durationSec: Math.max(0, Math.round((lastTs - firstTs) / 1000)),
+        maxPressureAltitude: this.toNum(g.maxPressureAltitude),
+        maxAirspeed: this.toNum(g.maxAirspeed),
+        bbox: hasBox
+          ? {
+              minLat: this.toNum(g.minLat),
+              maxLat: this.toNum(g.maxLat),
+              minLon: this.toNum(g.minLon),
+              maxLon: this.toNum(g.maxLon),
+            }
+          : null,
+        ...this.routeOf(g),
+      };
+    });
+
+    return { items, total, page, pageSize };
   }
 }
@@ -0,0 +1,205 @@
+import type { FdrTick } from './pilot.service';
+
+export type PlaybackFrame = {
+  idx: number; // last recorded tick at or before the cursor
+  total: number;
+  playing: boolean;
+  rate: number;
+  point: FdrTick; // interpolated at the cursor
+};
+
+export type FrameListener = (f: PlaybackFrame) => void;
+
+const DEFAULT_FPS = 10;
+const MAX_FPS = 60;
+// across recording gaps longer than this the aircraft holds position instead of gliding
+const MAX_INTERP_GAP_MS = 10_000;
+// playback speed range; past a few dozen times real time a frame skips minutes of flight
+const MIN_RATE = 0.1;
+const MAX_RATE = 64;
+
+const LINEAR: Array<keyof FdrTick> = [
+  'latitude',
+  'longitude',
+  'pressureAltitude',
+  'pitchAngle',
+  'rollAngle',
+  'computedAirspeed',
+  'verticalSpeed',
+  'flapPosition',
+];
+
+export function playbackFps(): number {
+  const fps = Number(process.env.PLAYBACK_FPS);
+  return Number.isFinite(fps) && fps > 0 ? Math.min(MAX_FPS, fps) : DEFAULT_FPS;
+}
+
+/**
+ * Per-session playback clock. Flight time advances as wall time × rate from
+ * an anchor; frames go out at a fixed rate, each interpolated between the two
+ * recorded ticks around the cursor. Timer drift is absorbed by scheduling each
+ * frame against its due time instead of chaining fixed delays.
+ */
+export class PlaybackClock {
+  private playing = false;
+  private rate = 1;
+  private cursorAnchor: number; // flight time (epoch ms) at wallAnchor
+  private wallAnchor = 0;
+  private timer?: NodeJS.Timeout;
+  private nextDue = 0;
+  private listener?: FrameListener;
+
+  constructor(
+    private readonly data: FdrTick[],
+    private readonly fps = playbackFps(),
+    private readonly now: () => number = () => performance.now(),
+  ) {
+    this.cursorAnchor = data[0]?.ts ?? 0;
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  get currentRate() {
+    return this.rate;
+  }
+
+  get total() {
+    return this.data.length;
+  }
+
+  /** Flight time under the cursor, epoch ms. */
+  get position(): number {
+    if (!this.data.length) return 0;
+    const end = this.data[this.data.length - 1].ts;
+    const t = this.playing
+      ? this.cursorAnchor + (this.now() - this.wallAnchor) * this.rate
+      : this.cursorAnchor;
+    return Math.min(end, Math.max(this.data[0].ts, t));
+  }
+
+  get idx(): number {
+    return this.indexAt(this.position);
+  }
+
+  play(listener: FrameListener) {
+    this.listener = listener;
+    if (this.playing || !this.data.length) return;
+    if (this.position >= this.data[this.data.length - 1].ts) return;
+    this.anchor(this.position);
+    this.playing = true;
+    this.nextDue = this.now();
+    this.schedule();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.anchor(this.position);
+    this.playing = false;
+    this.clearTimer();
+  }
+
+  setRate(rate: number) {
+    if (!Number.isFinite(rate)) return;
+    this.anchor(this.position);
+    this.rate = Math.min(MAX_RATE, Math.max(MIN_RATE, rate));
+  }
+
+  seekTo(ts: number) {
+    if (!this.data.length || !Number.isFinite(ts)) return;
+    this.anchor(Math.min(this.data[this.data.length - 1].ts, Math.max(this.data[0].ts, ts)));
+  }
+
+  seekIdx(idx: number) {
+    if (!this.data.length || !Number.isFinite(idx)) return;
+    this.seekTo(this.data[Math.max(0, Math.min(this.data.length - 1, idx))].ts);
+  }
+
+  /** Release the timer; the clock can still be played again. */
+  stop() {
+    this.pause();
+    this.listener = undefined;
+  }
+
+  frame(): PlaybackFrame | null {
+    if (!this.data.length) return null;
+    const t = this.position;
+    const idx = this.indexAt(t);
+    return {
+      idx,
+      total: this.data.length,
+      playing: this.playing,
+      rate: this.rate,
+      point: this.interpolate(idx, t),
+    };
+  }
+
+  // ---------- internals ----------
+  private anchor(cursor: number) {
+    this.cursorAnchor = cursor;
+    this.wallAnchor = this.now();
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private schedule() {
+    const period = 1000 / this.fps;
+    this.nextDue += period;
+    const now = this.now();
+    // more than a frame behind (event loop stall): drop frames rather than burst
+    if (this.nextDue < now - period) this.nextDue = now + period;
+    this.timer = setTimeout(() => this.emit(), Math.max(0, this.nextDue - now));
+  }
+
+  private emit() {
+    if (!this.playing) return;
+    const atEnd = this.position >= this.data[this.data.length - 1].ts;
+    if (atEnd) {
+      this.anchor(this.data[this.data.length - 1].ts);
+      this.playing = false;
+      this.clearTimer();
+    }
+    const f = this.frame();
+    if (f) this.listener?.(f);
+    if (!atEnd) this.schedule();
+  }
+
+  private indexAt(t: number): number {
+    // binary search: last tick with ts <= t
+    let lo = 0,
+      hi = this.data.length - 1,
+      ans = 0;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.data[mid].ts <= t) {
+        ans = mid;
+        lo = mid + 1;
+      } else hi = mid - 1;
+    }
+    return ans;
+  }
+
+  private interpolate(idx: number, t: number): FdrTick {
+    const a = this.data[idx];
+    const b = this.data[idx + 1];
+    if (!b || t <= a.ts || b.ts - a.ts > MAX_INTERP_GAP_MS) return { ...a };
+
+    const f = (t - a.ts) / (b.ts - a.ts);
+    const out: FdrTick = { ...a, ts: Math.round(t) };
+    for (const k of LINEAR) {
+      const va = a[k] as number | null;
+      const vb = b[k] as number | null;
+      if (va != null && vb != null) (out[k] as number) = va + (vb - va) * f;
+    }
+    if (a.magHeading != null && b.magHeading != null) {
+      // shortest way round the compass
+      const d = ((b.magHeading - a.magHeading + 540) % 360) - 180;
+      out.magHeading = (a.magHeading + d * f + 360) % 360;
+    }
+    return out;
+  }
+}
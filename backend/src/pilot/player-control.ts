@@ -0,0 +1,46 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WsException } from '@nestjs/websockets';
+import type { Socket } from 'socket.io';
+import type { AuthUser } from '../auth/current-user.decorator';
+import type { Role } from '../users/user.entity';
+import type { ShareGrant } from '../share/share.service';
+import { orgScope, OrgScope } from '../organizations/org-scope';
+import { AuditService } from '../audit/audit.service';
+import { auditCall } from '../audit/audit.interceptor';
+
+// viewers may watch a replay; these roles may also drive it
+export const CONTROL_ROLES: Role[] = ['pilot', 'admin', 'superadmin'];
+
+/** User the handshake authenticated as (set by PilotGateway). */
+export const socketUser = (client: Socket): AuthUser | undefined => (client.data as { user?: AuthUser }).user;
+
+/** Share link a guest socket connected with instead of a user (set by PilotGateway). */
+export const socketShare = (client: Socket): ShareGrant | undefined => (client.data as { share?: ShareGrant }).share;
+
+export const canControl = (client: Socket | undefined) =>
+  !!client && CONTROL_ROLES.includes(socketUser(client)?.role as Role);
+
+/** Organizations the socket may replay: orgScope of the handshake user, or the share link's. */
+export const socketScope = (client: Socket): OrgScope => socketShare(client)?.organizationId ?? orgScope(socketUser(client));
+
+/**
+ * Lets a socket drive its own playback cursor: control roles, and guests
+ * whose share link is not read-only. Parties still take their controller.
+ * Refused attempts are audited here, as they never reach AuditInterceptor.
+ */
+@Injectable()
+export class DriveGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly audit: AuditService,
+  ) {}
+
+  canActivate(ctx: ExecutionContext): boolean {
+    const client = ctx.switchToWs().getClient<Socket>();
+    if (canControl(client) || socketShare(client)?.readOnly === false) return true;
+    const message = socketShare(client) ? 'This share link is read-only' : `Requires role: ${CONTROL_ROLES.join(' or ')}`;
+    auditCall(this.reflector, this.audit, ctx)?.('failure', { error: message });
+    throw new WsException(message);
+  }
+}
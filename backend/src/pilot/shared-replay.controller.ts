@@ -0,0 +1,57 @@
+import { Controller, Get, Query, UseGuards, ValidationPipe } from '@nestjs/common';
+import { PilotService } from './pilot.service';
+import { SharedPathDto } from './dto/shared-path.dto';
+import { ShareLinkGuard } from '../share/share-link.guard';
+import { CurrentShare } from '../share/current-share.decorator';
+import type { ShareGrant } from '../share/share.service';
+
+/**
+ * Replay for guests holding a share link instead of an account: the link's
+ * flight only, cut to its window. Each request is a logged use of the link.
+ */
+@Controller('share/replay')
+@UseGuards(ShareLinkGuard)
+export class SharedReplayController {
+  constructor(private readonly pilot: PilotService) {}
+
+  @Get()
+  info(@CurrentShare() share: ShareGrant) {
+    const { flightNumber, date, registration, window } = share.key;
+    return {
+      key: { flightNumber, date, registration },
+      from: window?.from ?? null,
+      to: window?.to ?? null,
+      readOnly: share.readOnly,
+      expiresAt: share.expiresAt,
+    };
+  }
+
+  @Get('path')
+  async path(
+    @Query(new ValidationPipe({ transform: true, whitelist: true })) q: SharedPathDto,
+    @CurrentShare() share: ShareGrant,
+  ) {
+    // guests have no saved profile: imperial unless they ask
+    const units = this.pilot.unitPlan(q);
+    const { path, total } = await this.pilot.getPathLod(share.key, {
+      maxPoints: q.maxPoints,
+      tolerance: q.tolerance,
+      from: q.from,
+      to: q.to,
+      derived: q.derived,
+      mask: q.mask,
+      units,
+    });
+    return { path, total, returned: path.length, units: units.units };
+  }
+
+  @Get('phases')
+  async phases(@CurrentShare() share: ShareGrant) {
+    return { phases: await this.pilot.getPhases(share.key) };
+  }
+
+  @Get('route')
+  route(@CurrentShare() share: ShareGrant) {
+    return this.pilot.getRoute(share.key);
+  }
+}
@@ -0,0 +1,107 @@
+// Level-of-detail helpers for long flights. Both return a subset of the input,
+// in input order, always keeping the first and last element.
+
+const EARTH_RADIUS_M = 6_371_000;
+const DEG = Math.PI / 180;
+
+/**
+ * Douglas-Peucker over lat/lon with a tolerance in metres. Points without a
+ * fix are dropped. Uses a local equirectangular projection, which is plenty
+ * for deciding which vertices matter on screen.
+ */
+export function douglasPeucker<T>(
+  points: T[],
+  toleranceM: number,
+  latLon: (p: T) => [number | null | undefined, number | null | undefined],
+): T[] {
+  const fixes: Array<{ p: T; x: number; y: number }> = [];
+  let lat0: number | null = null;
+  for (const p of points) {
+    const [lat, lon] = latLon(p);
+    if (lat == null || lon == null) continue;
+    lat0 ??= lat;
+    fixes.push({ p, x: lon * DEG * Math.cos(lat0 * DEG) * EARTH_RADIUS_M, y: lat * DEG * EARTH_RADIUS_M });
+  }
+  if (fixes.length <= 2 || toleranceM <= 0) return fixes.map((f) => f.p);
+
+  const keep = new Uint8Array(fixes.length);
+  keep[0] = keep[fixes.length - 1] = 1;
+  const tol2 = toleranceM * toleranceM;
+  // explicit stack: a recursive version overflows on long straight legs
+  const stack: Array<[number, number]> = [[0, fixes.length - 1]];
+  while (stack.length) {
+    const [a, b] = stack.pop()!;
+    let worst = -1;
+    let worstD2 = tol2;
+    for (let i = a + 1; i < b; i++) {
+      const d2 = segmentDist2(fixes[i], fixes[a], fixes[b]);
+      if (d2 > worstD2) {
+        worst = i;
+        worstD2 = d2;
+      }
+    }
+    if (worst < 0) continue;
+    keep[worst] = 1;
+    stack.push([a, worst], [worst, b]);
+  }
+  return fixes.filter((_, i) => keep[i]).map((f) => f.p);
+}
+
+function segmentDist2(
+  p: { x: number; y: number },
+  a: { x: number; y: number },
+  b: { x: number; y: number },
+): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+  const ex = p.x - (a.x + t * dx);
+  const ey = p.y - (a.y + t * dy);
+  return ex * ex + ey * ey;
+}
+
+/**
+ * Largest-Triangle-Three-Buckets downsampling of a time series to at most
+ * `threshold` points. Null y values count as 0 for bucket selection only.
+ */
+export function lttb<T>(points: T[], threshold: number, x: (p: T) => number, y: (p: T) => number | null | undefined): T[] {
+  const n = points.length;
+  if (threshold >= n || threshold < 3) return threshold < 3 && n > 2 ? [points[0], points[n - 1]] : points.slice();
+
+  const out: T[] = [points[0]];
+  const every = (n - 2) / (threshold - 2);
+  let a = 0;
+  for (let i = 0; i < threshold - 2; i++) {
+    // average of the next bucket is the third triangle vertex
+    const nextStart = Math.floor((i + 1) * every) + 1;
+    const nextEnd = Math.min(Math.floor((i + 2) * every) + 1, n);
+    let avgX = 0;
+    let avgY = 0;
+    for (let j = nextStart; j < nextEnd; j++) {
+      avgX += x(points[j]);
+      avgY += y(points[j]) ?? 0;
+    }
+    const cnt = Math.max(1, nextEnd - nextStart);
+    avgX /= cnt;
+    avgY /= cnt;
+
+    const start = Math.floor(i * every) + 1;
+    const end = Math.floor((i + 1) * every) + 1;
+    const ax = x(points[a]);
+    const ay = y(points[a]) ?? 0;
+    let best = start;
+    let bestArea = -1;
+    for (let j = start; j < end; j++) {
+      const area = Math.abs((ax - avgX) * ((y(points[j]) ?? 0) - ay) - (ax - x(points[j])) * (avgY - ay));
+      if (area > bestArea) {
+        bestArea = area;
+        best = j;
+      }
+    }
+    out.push(points[best]);
+    a = best;
+  }
+  out.push(points[n - 1]);
+  return out;
+}
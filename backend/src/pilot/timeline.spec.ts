@@ -0,0 +1,40 @@
+import { baseTs, buildTimeline, TimelineBuilder } from './timeline';
+
+const row = (utcTime: string, fdrTime?: number, date = 20250324) => ({ date, utcTime, fdrTime });
+
+describe('timeline', () => {
+  it('spreads frames sharing a UTC second by fdrTime', () => {
+    const out = buildTimeline([row('10:00:00', 3), row('10:00:00', 1), row('10:00:00', 2), row('10:00:01', 4)]);
+    const t0 = baseTs(20250324, '10:00:00');
+    expect(out.map((s) => s.row.fdrTime)).toEqual([1, 2, 3, 4]);
+    expect(out.map((s) => s.ts - t0)).toEqual([0, 333, 666, 1000]);
+  });
+
+  it('drops frames repeating an fdrTime within the same second', () => {
+    const b = new TimelineBuilder<ReturnType<typeof row>>();
+    const out = [...b.push([row('10:00:00', 1), row('10:00:00', 1), row('10:00:01', 2)]), ...b.end()];
+    expect(out).toHaveLength(2);
+    expect(b.duplicates.map((d) => d.ts)).toEqual([out[0].ts]);
+  });
+
+  it('rolls over to the next day when the clock passes midnight', () => {
+    const out = buildTimeline([row('23:59:59'), row('00:00:00'), row('00:00:01')]);
+    expect(out.map((s) => s.ts)).toEqual([
+      baseTs(20250324, '23:59:59'),
+      baseTs(20250325, '00:00:00'),
+      baseTs(20250325, '00:00:01'),
+    ]);
+  });
+
+  it('stays strictly increasing when the clock steps back', () => {
+    const ts = buildTimeline([row('10:00:05'), row('10:00:04'), row('10:00:06')]).map((s) => s.ts);
+    for (let i = 1; i < ts.length; i++) expect(ts[i]).toBeGreaterThan(ts[i - 1]);
+  });
+
+  it('stamps streamed chunks the same as a whole load', () => {
+    const rows = [row('10:00:00', 1), row('10:00:00', 2), row('10:00:01', 3), row('10:00:01', 4)];
+    const b = new TimelineBuilder<(typeof rows)[number]>();
+    const chunked = [...b.push(rows.slice(0, 3)), ...b.push(rows.slice(3)), ...b.end()];
+    expect(chunked.map((s) => s.ts)).toEqual(buildTimeline(rows).map((s) => s.ts));
+  });
+});
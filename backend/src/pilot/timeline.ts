@@ -0,0 +1,108 @@
+// Flight timeline: turns date + utcTime (+ fdrTime) into a strictly increasing
+// epoch-ms ts. FDR exports carry one-second UTC resolution, several frames per
+// second, and keep a single `date` for flights that cross 00:00 UTC.
+
+export type TimelineRow = {
+  date: number; // yyyymmdd
+  utcTime?: string | null; // "hh:mm:ss"
+  fdrTime?: number | null;
+};
+
+export type Stamped<T> = { row: T; ts: number };
+
+const DAY_MS = 86_400_000;
+// a clock that jumps back by more than this is taken as a midnight rollover
+const ROLLOVER_MS = DAY_MS / 2;
+
+/** Second-resolution UTC from date + utcTime, no rollover handling. */
+export function baseTs(date: number, utc?: string | null): number {
+  const y = Math.floor(date / 10000);
+  const m = Math.floor((date % 10000) / 100);
+  const d = date % 100;
+  let hh = 0, mm = 0, ss = 0;
+  if (utc) {
+    const mtx = /^(\d{1,2}):(\d{1,2})(?::(\d{1,2}))?$/.exec(utc.trim());
+    if (mtx) {
+      hh = Number(mtx[1]) || 0;
+      mm = Number(mtx[2]) || 0;
+      ss = Number(mtx[3]) || 0;
+    }
+  }
+  return Date.UTC(y, m - 1, d, hh, mm, ss);
+}
+
+/**
+ * Incremental stamper for rows in recording (id) order, so streamed chunks
+ * get the same ts as a whole-flight load. Frames within one UTC second are
+ * ordered by fdrTime, frames repeating an fdrTime in that second are dropped
+ * as duplicates, and the rest are spread evenly across the second.
+ * Rows of the second still open are held back until the next push or end().
+ */
+export class TimelineBuilder<T extends TimelineRow> {
+  private dayOffset = 0;
+  private lastSecond: number | null = null;
+  private lastTs = -Infinity;
+  private run: T[] = [];
+  private runSecond = 0;
+  /** Rows dropped as repeats, stamped with the ts of the frame they repeat. */
+  readonly duplicates: Stamped<T>[] = [];
+
+  push(rows: T[]): Stamped<T>[] {
+    const out: Stamped<T>[] = [];
+    for (const row of rows) {
+      let sec = baseTs(row.date, row.utcTime) + this.dayOffset;
+      if (this.lastSecond != null && sec < this.lastSecond - ROLLOVER_MS) {
+        this.dayOffset += DAY_MS;
+        sec += DAY_MS;
+      }
+      this.lastSecond = sec;
+
+      if (this.run.length && sec !== this.runSecond) this.flush(out);
+      if (!this.run.length) this.runSecond = sec;
+      this.run.push(row);
+    }
+    return out;
+  }
+
+  end(): Stamped<T>[] {
+    const out: Stamped<T>[] = [];
+    this.flush(out);
+    return out;
+  }
+
+  private flush(out: Stamped<T>[]) {
+    if (!this.run.length) return;
+    // stable: rows without fdrTime keep their recorded position relative to each other
+    const sorted = this.run
+      .map((row, i) => ({ row, i }))
+      .sort((a, b) => {
+        const fa = a.row.fdrTime;
+        const fb = b.row.fdrTime;
+        if (fa == null || fb == null) return a.i - b.i;
+        return fa - fb || a.i - b.i;
+      })
+      .map((x) => x.row);
+
+    const frames: T[] = [];
+    const repeats: Array<{ row: T; of: number }> = []; // of: index into frames
+    sorted.forEach((r, i) => {
+      if (i === 0 || r.fdrTime == null || r.fdrTime !== sorted[i - 1].fdrTime) frames.push(r);
+      else repeats.push({ row: r, of: frames.length - 1 });
+    });
+    const stamps = frames.map((row, k) => {
+      let ts = this.runSecond + Math.floor((k * 1000) / frames.length);
+      if (ts <= this.lastTs) ts = this.lastTs + 1; // keep strictly increasing
+      this.lastTs = ts;
+      out.push({ row, ts });
+      return ts;
+    });
+    for (const { row, of } of repeats) this.duplicates.push({ row, ts: stamps[of] });
+    this.run = [];
+  }
+}
+
+/** Whole-flight convenience over TimelineBuilder. */
+export function buildTimeline<T extends TimelineRow>(rows: T[]): Stamped<T>[] {
+  const b = new TimelineBuilder<T>();
+  return [...b.push(rows), ...b.end()];
+}
@@ -0,0 +1,122 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { WsException } from '@nestjs/websockets';
+import { randomBytes } from 'crypto';
+import type { FlightKey, ScopedKey, SessionId } from './pilot.service';
+import { inScope, OrgScope } from '../organizations/org-scope';
+
+export type WatchParty = {
+  id: string;
+  key: FlightKey;
+  orgId: OrgScope; // scope of the creator; only members of it (or cross-org staff) may join
+  controller: string | null; // socket id allowed to drive playback; null when no member may
+  members: string[]; // socket ids in join order; the controller is one of them
+};
+
+export type WatchPartyState = {
+  roomId: string;
+  key: FlightKey;
+  controller: string | null;
+  members: string[];
+};
+
+/**
+ * Shared replay rooms. One playback session per party is driven by its
+ * controller; everyone else in the room follows that cursor. Control passes
+ * explicitly via handover, or to the longest-standing member allowed to drive
+ * when the controller leaves. Socket plumbing and roles stay in the gateway.
+ */
+@Injectable()
+export class WatchPartyService {
+  private log = new Logger(WatchPartyService.name);
+  private parties = new Map<string, WatchParty>();
+
+  /** Socket.io room and playback session id for a party. */
+  static channel(id: string): SessionId {
+    return `party:${id}`;
+  }
+
+  create(key: ScopedKey, socketId: string): WatchParty {
+    let id: string;
+    do id = randomBytes(4).toString('hex');
+    while (this.parties.has(id));
+
+    const party: WatchParty = {
+      id,
+      key: { flightNumber: key.flightNumber, date: key.date, registration: key.registration },
+      orgId: key.orgId,
+      controller: socketId,
+      members: [socketId],
+    };
+    this.parties.set(id, party);
+    this.log.log(`party ${id} opened on ${key.flightNumber}:${key.date}`);
+    return party;
+  }
+
+  get(id: string): WatchParty {
+    const party = this.parties.get(id);
+    if (!party) throw new WsException(`Watch party ${id} not found`);
+    return party;
+  }
+
+  /** The party's flight as its playback session loads it. */
+  static flight(party: WatchParty): ScopedKey {
+    return { ...party.key, orgId: party.orgId };
+  }
+
+  join(id: string, socketId: string, mayControl: boolean, scope: OrgScope): WatchParty {
+    const party = this.get(id);
+    // same message as a missing room: ids are not confirmed across organizations
+    if (!inScope(scope, party.orgId)) throw new WsException(`Watch party ${id} not found`);
+    if (!party.members.includes(socketId)) party.members.push(socketId);
+    if (party.controller == null && mayControl) party.controller = socketId;
+    return party;
+  }
+
+  /** Throws unless `socketId` currently controls the party. */
+  assertController(id: string, socketId: string): WatchParty {
+    const party = this.get(id);
+    if (party.controller !== socketId) {
+      throw new WsException('Only the room controller can drive playback');
+    }
+    return party;
+  }
+
+  handover(id: string, from: string, to: string, mayControl: boolean): WatchParty {
+    const party = this.assertController(id, from);
+    if (!party.members.includes(to)) throw new WsException('Target is not in this room');
+    if (!mayControl) throw new WsException('Target is not allowed to control playback');
+    party.controller = to;
+    return party;
+  }
+
+  /**
+   * Remove a member. Returns the party if it lives on, or null when the last
+   * member left and the room was closed.
+   */
+  leave(id: string, socketId: string, mayControl: (socketId: string) => boolean): WatchParty | null {
+    const party = this.parties.get(id);
+    if (!party) return null;
+    party.members = party.members.filter((m) => m !== socketId);
+    if (!party.members.length) {
+      this.parties.delete(id);
+      this.log.log(`party ${id} closed`);
+      return null;
+    }
+    if (party.controller === socketId) party.controller = party.members.find(mayControl) ?? null;
+    return party;
+  }
+
+  /** Ids of every party the socket belongs to. */
+  membershipOf(socketId: string): string[] {
+    return [...this.parties.values()].filter((p) => p.members.includes(socketId)).map((p) => p.id);
+  }
+
+  state(party: WatchParty): WatchPartyState {
+    return {
+      roomId: party.id,
+      key: party.key,
+      controller: party.controller,
+      members: [...party.members],
+    };
+  }
+}
@@ -0,0 +1,9 @@
+// src/share/current-share.decorator.ts
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { ShareGrant } from './share.service';
+
+// set by ShareLinkGuard
+export const CurrentShare = createParamDecorator(
+  (_: unknown, ctx: ExecutionContext): ShareGrant | undefined =>
+    ctx.switchToHttp().getRequest<{ share?: ShareGrant }>().share,
+);
@@ -0,0 +1,38 @@
+// src/share/dto/create-share-link.dto.ts
+import { IsBoolean, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+// links outlive no investigation for long; issue a fresh one rather than a longer one
+export const MAX_SHARE_HOURS = 24 * 14;
+export const DEFAULT_SHARE_HOURS = 72;
+
+export class CreateShareLinkDto {
+  // FlightSummary.flightId from GET /pilot/flights
+  @IsInt()
+  @Min(1)
+  flightId: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SHARE_HOURS)
+  expiresInHours?: number;
+
+  // replayable window, epoch ms (inclusive); omit for the whole flight
+  @IsOptional()
+  @IsInt()
+  from?: number;
+
+  @IsOptional()
+  @IsInt()
+  to?: number;
+
+  // default true: guests follow playback but cannot drive it
+  @IsOptional()
+  @IsBoolean()
+  readOnly?: boolean;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(191)
+  note?: string;
+}
@@ -0,0 +1,11 @@
+// src/share/dto/list-share-links.dto.ts
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ListShareLinksDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  flightId?: number;
+}
@@ -0,0 +1,67 @@
+// src/share/share-link.entity.ts
+import { Entity, PrimaryGeneratedColumn, Column, Index, CreateDateColumn, ManyToOne, JoinColumn, ValueTransformer } from 'typeorm';
+import { Flight } from '../fleet/flight.entity';
+import { User } from '../users/user.entity';
+
+// mysql2 hands BIGINT back as a string; epoch ms fits a JS number
+const epochMs: ValueTransformer = {
+  to: (v: number | null) => v,
+  from: (v: string | number | null) => (v == null ? null : Number(v)),
+};
+
+// One guest link to one flight. The token itself is signed, not stored; this
+// row is what makes it revocable and what every use is checked against.
+@Entity('share_links')
+export class ShareLink {
+  @PrimaryGeneratedColumn() id: number;
+
+  // the flight's organization; guests replay within it
+  @Index()
+  @Column({ name: 'organization_id', type: 'int' })
+  organizationId: number;
+
+  @Index()
+  @Column({ name: 'flight_id', type: 'int' })
+  flightId: number;
+
+  @ManyToOne(() => Flight, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'flight_id' })
+  flight?: Flight;
+
+  @Column({ name: 'created_by', type: 'int', nullable: true })
+  createdById: number | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'created_by' })
+  createdBy?: User;
+
+  // who the link is for, e.g. "AAIB investigator"
+  @Column({ type: 'varchar', length: 191, nullable: true })
+  note: string | null;
+
+  // replayable stretch of the flight, epoch ms; null ends are open
+  @Column({ name: 'from_ts', type: 'bigint', nullable: true, transformer: epochMs })
+  fromTs: number | null;
+
+  @Column({ name: 'to_ts', type: 'bigint', nullable: true, transformer: epochMs })
+  toTs: number | null;
+
+  // guests may only follow playback, not drive their own cursor
+  @Column({ name: 'read_only', type: 'boolean', default: true })
+  readOnly: boolean;
+
+  @Column({ name: 'expires_at', type: 'datetime', precision: 6 })
+  expiresAt: Date;
+
+  @Column({ name: 'revoked_at', type: 'datetime', precision: 6, nullable: true })
+  revokedAt: Date | null;
+
+  @Column({ type: 'int', default: 0 })
+  uses: number;
+
+  @Column({ name: 'last_used_at', type: 'datetime', precision: 6, nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
+  createdAt: Date;
+}
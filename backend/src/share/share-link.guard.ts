@@ -0,0 +1,23 @@
+// src/share/share-link.guard.ts
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import type { Request } from 'express';
+import { ShareGrant, ShareService } from './share.service';
+
+// guests send the token from their link in this header instead of a JWT
+export const SHARE_TOKEN_HEADER = 'x-share-token';
+
+/** Guest HTTP access: a valid share token puts its grant on request.share. */
+@Injectable()
+export class ShareLinkGuard implements CanActivate {
+  constructor(private readonly share: ShareService) {}
+
+  async canActivate(ctx: ExecutionContext): Promise<boolean> {
+    const req = ctx.switchToHttp().getRequest<Request & { share?: ShareGrant }>();
+    const token = req.headers[SHARE_TOKEN_HEADER];
+    const grant =
+      typeof token === 'string' && token ? await this.share.verify(token, { ip: req.ip ?? null, via: 'http' }) : null;
+    if (!grant) throw new UnauthorizedException('Share link is invalid, expired or revoked');
+    req.share = grant;
+    return true;
+  }
+}
@@ -0,0 +1,36 @@
+// src/share/share.controller.ts
+import { Body, Controller, Delete, Get, Ip, Param, ParseIntPipe, Post, Query, UseGuards } from '@nestjs/common';
+import { ShareService } from './share.service';
+import { CreateShareLinkDto } from './dto/create-share-link.dto';
+import { ListShareLinksDto } from './dto/list-share-links.dto';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+import { AuthUser, CurrentUser } from '../auth/current-user.decorator';
+import { CROSS_ORG_ROLE, orgScope } from '../organizations/org-scope';
+import { actorOf } from '../audit/audit.service';
+
+// guests replay through /share/replay (PilotModule); these routes manage the links
+@Controller('share')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'pilot')
+export class ShareController {
+  constructor(private readonly share: ShareService) {}
+
+  @Post()
+  create(@Body() dto: CreateShareLinkDto, @CurrentUser() me: AuthUser, @Ip() ip: string) {
+    return this.share.create(dto, orgScope(me), actorOf(me, ip));
+  }
+
+  @Get()
+  list(@Query() q: ListShareLinksDto, @CurrentUser() me: AuthUser) {
+    return this.share.list(orgScope(me), q.flightId);
+  }
+
+  // pilots revoke their own links, admins any in their organization
+  @Delete(':id')
+  revoke(@Param('id', ParseIntPipe) id: number, @CurrentUser() me: AuthUser, @Ip() ip: string) {
+    const anyLink = me.role === 'admin' || me.role === CROSS_ORG_ROLE;
+    return this.share.revoke(id, orgScope(me), anyLink, actorOf(me, ip));
+  }
+}
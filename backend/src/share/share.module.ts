@@ -0,0 +1,23 @@
+// src/share/share.module.ts
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShareLink } from './share-link.entity';
+import { ShareService } from './share.service';
+import { ShareController } from './share.controller';
+import { Flight } from '../fleet/flight.entity';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ShareLink, Flight]),
+    // secret is passed per call (see ShareService), never the access-token one
+    JwtModule.register({}),
+    AuditModule,
+  ],
+  providers: [ShareService],
+  controllers: [ShareController],
+  // ShareLinkGuard is resolved in the importing module and only needs ShareService
+  exports: [ShareService],
+})
+export class ShareModule {}
@@ -0,0 +1,59 @@
+import { JwtService } from '@nestjs/jwt';
+import { ShareService } from './share.service';
+
+const FLIGHT = { id: 5, flightNumber: '122', date: 20250324, registration: 'DAIBA', organizationId: 3 };
+
+function setup() {
+  let row: Record<string, unknown> | null = null;
+  const links = {
+    create: jest.fn((l: object) => l),
+    save: jest.fn((l: object) => Promise.resolve((row = { ...row, ...l, id: 9 }))),
+    findOne: jest.fn(() => Promise.resolve(row && { ...row, flight: FLIGHT })),
+    update: jest.fn<Promise<void>, [{ id: number }, { lastUsedAt?: Date }]>(() => Promise.resolve()),
+  };
+  const flights = {
+    findOne: jest.fn(({ where }: { where: { organizationId?: number } }) =>
+      Promise.resolve(where.organizationId === FLIGHT.organizationId ? FLIGHT : null),
+    ),
+  };
+  const audit = { record: jest.fn(() => Promise.resolve()) };
+  const share = new ShareService(links as never, flights as never, new JwtService({}), audit as never);
+  return { share, links, audit };
+}
+
+const use = { ip: '10.0.0.1', via: 'http' as const };
+
+describe('ShareService', () => {
+  it('grants the linked flight within its window and logs the use', async () => {
+    const { share, links, audit } = setup();
+    const { token } = await share.create({ flightId: 5, from: 1000, to: 2000 }, 3, { id: 7, organizationId: 3 });
+
+    await expect(share.verify(token, use)).resolves.toMatchObject({
+      linkId: 9,
+      readOnly: true,
+      key: { flightNumber: '122', date: 20250324, registration: 'DAIBA', orgId: 3, window: { from: 1000, to: 2000 } },
+    });
+    const [where, patch] = links.update.mock.calls[0];
+    expect(where).toEqual({ id: 9 });
+    expect(patch.lastUsedAt).toBeInstanceOf(Date);
+    expect(audit.record).toHaveBeenLastCalledWith(
+      expect.objectContaining({ action: 'share.use', outcome: 'success', actor: { organizationId: 3, ip: '10.0.0.1' } }),
+    );
+  });
+
+  it('refuses revoked links and access tokens', async () => {
+    const { share, audit } = setup();
+    const { token } = await share.create({ flightId: 5 }, 3, { id: 7, organizationId: 3 });
+    await share.revoke(9, 3, false, { id: 7, organizationId: 3 });
+    await expect(share.verify(token, use)).resolves.toBeNull();
+    expect(audit.record).toHaveBeenLastCalledWith(expect.objectContaining({ outcome: 'failure', detail: { via: 'http', reason: 'revoked' } }));
+
+    const access = await new JwtService({ secret: 'dev-secret' }).signAsync({ sub: 9 });
+    await expect(share.verify(access, use)).resolves.toBeNull();
+  });
+
+  it('only shares flights of the caller organization', async () => {
+    const { share } = setup();
+    await expect(share.create({ flightId: 5 }, 4, { id: 7, organizationId: 4 })).rejects.toThrow('Flight not found');
+  });
+});
@@ -0,0 +1,172 @@
+// src/share/share.service.ts
+import { BadRequestException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { FindOptionsWhere, Repository } from 'typeorm';
+import { Subject } from 'rxjs';
+import { ShareLink } from './share-link.entity';
+import { CreateShareLinkDto, DEFAULT_SHARE_HOURS } from './dto/create-share-link.dto';
+import { Flight } from '../fleet/flight.entity';
+import { AuditActor, AuditService } from '../audit/audit.service';
+import { OrgScope } from '../organizations/org-scope';
+import type { ScopedKey } from '../pilot/pilot.service';
+
+/** What a valid share token lets its holder replay. */
+export type ShareGrant = {
+  linkId: number;
+  organizationId: number;
+  key: ScopedKey; // the link's flight, limited to its window
+  readOnly: boolean;
+  expiresAt: Date;
+};
+
+type SharePayload = { sub: number };
+
+const SHARE_AUDIENCE = 'share';
+
+// read per call: .env is loaded after modules are built. Never the access
+// token secret as is, so a share token can not pass for a login.
+const shareSecret = () => process.env.SHARE_LINK_SECRET || `${process.env.JWT_SECRET || 'dev-secret'}:share`;
+
+/**
+ * Signed, expiring guest links to one flight. The token only carries the link
+ * id; revocation, window and read-only live on the row, which every use is
+ * checked against and logged to the audit log.
+ */
+@Injectable()
+export class ShareService {
+  /** Ids of links revoked by this process; the gateway drops their guests. */
+  readonly revoked$ = new Subject<number>();
+
+  constructor(
+    @InjectRepository(ShareLink) private readonly links: Repository<ShareLink>,
+    @InjectRepository(Flight) private readonly flights: Repository<Flight>,
+    private readonly jwt: JwtService,
+    private readonly audit: AuditService,
+  ) {}
+
+  /** A new link and its token; the token is only ever returned here. */
+  async create(dto: CreateShareLinkDto, scope: OrgScope, actor: AuditActor) {
+    const where: FindOptionsWhere<Flight> = { id: dto.flightId };
+    if (scope !== null) where.organizationId = scope;
+    const flight = await this.flights.findOne({ where });
+    if (!flight) throw new NotFoundException('Flight not found');
+    if (flight.organizationId == null) throw new BadRequestException('Flight belongs to no organization');
+    if (dto.from != null && dto.to != null && dto.from > dto.to) {
+      throw new BadRequestException('from must not be after to');
+    }
+
+    const hours = dto.expiresInHours ?? DEFAULT_SHARE_HOURS;
+    const link = await this.links.save(
+      this.links.create({
+        organizationId: flight.organizationId,
+        flightId: flight.id,
+        createdById: actor.id ?? null,
+        note: dto.note?.trim() || null,
+        fromTs: dto.from ?? null,
+        toTs: dto.to ?? null,
+        readOnly: dto.readOnly ?? true,
+        expiresAt: new Date(Date.now() + hours * 3_600_000),
+        revokedAt: null,
+      }),
+    );
+    const payload: SharePayload = { sub: link.id };
+    const token = await this.jwt.signAsync(payload, {
+      secret: shareSecret(),
+      audience: SHARE_AUDIENCE,
+      expiresIn: hours * 3600,
+    });
+
+    await this.audit.record({
+      action: 'share.create',
+      actor,
+      targetType: 'share',
+      target: link.id,
+      detail: {
+        flightId: flight.id,
+        flight: `${flight.flightNumber}:${flight.date}${flight.registration ? `@${flight.registration}` : ''}`,
+        readOnly: link.readOnly,
+        from: link.fromTs,
+        to: link.toTs,
+        expiresAt: link.expiresAt.toISOString(),
+      },
+    });
+    return { ...link, token };
+  }
+
+  list(scope: OrgScope, flightId?: number) {
+    const where: FindOptionsWhere<ShareLink> = {};
+    if (scope !== null) where.organizationId = scope;
+    if (flightId != null) where.flightId = flightId;
+    return this.links.find({ where, order: { id: 'DESC' } });
+  }
+
+  /** Revoke a link; without `anyLink` only the caller's own. Revoking twice is a no-op. */
+  async revoke(id: number, scope: OrgScope, anyLink: boolean, actor: AuditActor) {
+    const link = await this.links.findOne({ where: scope === null ? { id } : { id, organizationId: scope } });
+    if (!link) throw new NotFoundException('Share link not found');
+    if (!anyLink && link.createdById !== actor.id) {
+      throw new ForbiddenException('You can only revoke your own share links');
+    }
+    if (link.revokedAt) return link;
+
+    link.revokedAt = new Date();
+    await this.links.save(link);
+    await this.audit.record({ action: 'share.revoke', actor, targetType: 'share', target: link.id });
+    this.revoked$.next(link.id);
+    return link;
+  }
+
+  /**
+   * The grant behind a token, or null when it is forged, expired or revoked.
+   * Every call is a use of the link and is logged either way.
+   */
+  async verify(token: string, use: { ip: string | null; via: 'http' | 'socket' }): Promise<ShareGrant | null> {
+    let linkId: number | null = null;
+    try {
+      ({ sub: linkId } = await this.jwt.verifyAsync<SharePayload>(token, {
+        secret: shareSecret(),
+        audience: SHARE_AUDIENCE,
+      }));
+    } catch {
+      linkId = null;
+    }
+    const link = linkId == null ? null : await this.links.findOne({ where: { id: linkId }, relations: { flight: true } });
+
+    let reason: string | null = null;
+    if (!link?.flight) reason = 'invalid';
+    else if (link.revokedAt) reason = 'revoked';
+    else if (link.expiresAt.getTime() <= Date.now()) reason = 'expired';
+
+    await this.audit.record({
+      action: 'share.use',
+      // guests have no account; the entry belongs to the link's organization
+      actor: { organizationId: link?.organizationId ?? null, ip: use.ip },
+      targetType: 'share',
+      target: linkId,
+      outcome: reason ? 'failure' : 'success',
+      detail: reason ? { via: use.via, reason } : { via: use.via },
+    });
+    if (reason || !link?.flight) return null;
+
+    await this.links.update({ id: link.id }, { uses: () => 'uses + 1', lastUsedAt: new Date() });
+    return grantOf(link, link.flight);
+  }
+}
+
+function grantOf(link: ShareLink, flight: Flight): ShareGrant {
+  const windowed = link.fromTs != null || link.toTs != null;
+  return {
+    linkId: link.id,
+    organizationId: link.organizationId,
+    key: {
+      flightNumber: flight.flightNumber,
+      date: flight.date,
+      registration: flight.registration || undefined,
+      orgId: link.organizationId,
+      window: windowed ? { from: link.fromTs ?? undefined, to: link.toTs ?? undefined } : undefined,
+    },
+    readOnly: link.readOnly,
+    expiresAt: link.expiresAt,
+  };
+}
@@ -1,5 +1,6 @@
 // src/users/dto/create-user.dto.ts
-import { IsEmail, IsNotEmpty, MinLength, IsString, IsOptional, IsIn } from 'class-validator';
+import { IsEmail, IsNotEmpty, MinLength, IsString, IsOptional, IsIn, IsInt, Min } from 'class-validator';
+import { ROLES, Role } from '../user.entity';
 
 export class CreateUserDto {
   @IsEmail() email: string;
@@ -13,6 +14,12 @@ export class CreateUserDto {
   name: string;
 
   @IsOptional()
-  @IsIn(['admin', 'pilot', 'viewer'])
-  role?: 'admin' | 'pilot' | 'viewer';
+  @IsIn(ROLES)
+  role?: Role;
+
+  // set by superadmins; admins always create users in their own organization
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  organizationId?: number;
 }
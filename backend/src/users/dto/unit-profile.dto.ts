@@ -0,0 +1,12 @@
+// src/users/dto/unit-profile.dto.ts
+import { IsIn, IsObject, IsOptional } from 'class-validator';
+import { UNIT_SYSTEMS, UnitSystem } from '../../parameters/units';
+
+export class UnitProfileDto {
+  @IsIn(UNIT_SYSTEMS)
+  system: UnitSystem;
+
+  // parameter -> unit, e.g. { "pressureAltitude": "ft" }; checked against the registry
+  @IsOptional() @IsObject()
+  overrides?: Record<string, string>;
+}
@@ -1,5 +1,8 @@
 // src/users/dto/update-user.dto.ts
-import { IsEmail, IsOptional, MinLength, IsString, IsIn } from 'class-validator';
+import { IsEmail, IsOptional, MinLength, IsString, IsIn, IsInt, Min, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ROLES, Role } from '../user.entity';
+import { UnitProfileDto } from './unit-profile.dto';
 
 export class UpdateUserDto {
   @IsOptional() @IsEmail()
@@ -11,6 +14,13 @@ export class UpdateUserDto {
   @IsOptional() @IsString()
   name?: string;
 
-  @IsOptional() @IsIn(['admin', 'pilot', 'viewer'])
-  role?: 'admin' | 'pilot' | 'viewer';
+  @IsOptional() @IsIn(ROLES)
+  role?: Role;
+
+  @IsOptional() @IsInt() @Min(1)
+  organizationId?: number;
+
+  // null goes back to the default
+  @IsOptional() @ValidateNested() @Type(() => UnitProfileDto)
+  unitProfile?: UnitProfileDto | null;
 }
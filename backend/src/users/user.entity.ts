@@ -1,8 +1,14 @@
 // src/users/user.entity.ts
 import {
   Entity, PrimaryGeneratedColumn, Column, Index,
-  CreateDateColumn, UpdateDateColumn
+  CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn
 } from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
+import type { UnitProfile } from '../parameters/units';
+
+// superadmin is our own staff and sees every organization; admin manages one
+export const ROLES = ['superadmin', 'admin', 'pilot', 'viewer'] as const;
+export type Role = (typeof ROLES)[number];
 
 @Entity('users')
 export class User {
@@ -22,7 +28,24 @@ export class User {
 
   // keep simple for MySQL 5.7 compatibility; or switch to enum if you prefer
   @Column({ type: 'varchar', length: 20, default: 'viewer' })
-  role: 'admin' | 'pilot' | 'viewer';
+  role: Role;
+
+  // null only for superadmins
+  @Index()
+  @Column({ name: 'organization_id', type: 'int', nullable: true })
+  organizationId: number | null;
+
+  @ManyToOne(() => Organization, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'organization_id' })
+  organization?: Organization;
+
+  // units the API answers this user in when a request names none; null: imperial
+  @Column({ name: 'unit_profile', type: 'json', nullable: true })
+  unitProfile: UnitProfile | null;
+
+  // bumped on password/role change; tokens carrying an older version are refused
+  @Column({ name: 'token_version', type: 'int', default: 0, select: false })
+  tokenVersion: number;
 
   @CreateDateColumn({ name: 'created_at', type: 'datetime', precision: 6 })
   createdAt: Date;
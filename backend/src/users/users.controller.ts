@@ -9,38 +9,100 @@ import {
   Body,
   ParseIntPipe,
   UseGuards,
+  ForbiddenException,
+  NotFoundException,
+  HttpCode,
+  Ip,
 } from "@nestjs/common";
 import { UsersService } from "./users.service";
 import { CreateUserDto } from "./dto/create-user.dto";
 import { UpdateUserDto } from "./dto/update-user.dto";
 import { JwtAuthGuard } from "../auth/jwt-auth.guard";
+import { RolesGuard } from "../auth/roles.guard";
+import { Roles } from "../auth/roles.decorator";
+import { AuthUser, CurrentUser } from "../auth/current-user.decorator";
+import { AuthService } from "../auth/auth.service";
+import { CROSS_ORG_ROLE, orgScope } from "../organizations/org-scope";
+import { actorOf } from "../audit/audit.service";
+
+const isAdmin = (me: AuthUser) => me.role === "admin" || me.role === CROSS_ORG_ROLE;
+
+// non-admins may only see and edit themselves, and never their role
+function assertSelfOrAdmin(me: AuthUser, id: number) {
+  if (!isAdmin(me) && me.id !== id) {
+    throw new ForbiddenException("You can only access your own profile");
+  }
+}
+
+// only our own staff hand out the cross-org role or move users between organizations
+function assertMayAssign(me: AuthUser, dto: { role?: string; organizationId?: number }) {
+  if (me.role === CROSS_ORG_ROLE) return;
+  if (dto.role === CROSS_ORG_ROLE) throw new ForbiddenException(`Only a ${CROSS_ORG_ROLE} can grant that role`);
+  if (dto.organizationId !== undefined && dto.organizationId !== me.organizationId) {
+    throw new ForbiddenException("Users can only be managed within your organization");
+  }
+}
 
 @Controller("users")
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class UsersController {
-  constructor(private readonly users: UsersService) {}
-//   @UseGuards(JwtAuthGuard)
+  constructor(
+    private readonly users: UsersService,
+    private readonly auth: AuthService,
+  ) {}
+  /** The user, if `me` may see it; admins only reach members of their own organization. */
+  private async visible(me: AuthUser, id: number) {
+    assertSelfOrAdmin(me, id);
+    const user = await this.users.findOne(id);
+    const scope = orgScope(me);
+    if (me.id !== id && scope !== null && user.organizationId !== scope) {
+      throw new NotFoundException("User not found");
+    }
+    return user;
+  }
+  @Roles("admin")
   @Post()
-  create(@Body() dto: CreateUserDto) {
-    return this.users.create(dto);
+  create(@Body() dto: CreateUserDto, @CurrentUser() me: AuthUser, @Ip() ip: string) {
+    assertMayAssign(me, dto);
+    return this.users.create(
+      { ...dto, organizationId: dto.organizationId ?? me.organizationId ?? undefined },
+      actorOf(me, ip),
+    );
   }
-  @UseGuards(JwtAuthGuard)
+  @Roles("admin")
   @Get()
-  findAll() {
-    return this.users.findAll();
+  findAll(@CurrentUser() me: AuthUser) {
+    return this.users.findAll(orgScope(me));
   }
-  @UseGuards(JwtAuthGuard)
   @Get(":id")
-  findOne(@Param("id", ParseIntPipe) id: number) {
-    return this.users.findOne(id);
+  findOne(@Param("id", ParseIntPipe) id: number, @CurrentUser() me: AuthUser) {
+    return this.visible(me, id);
   }
-  @UseGuards(JwtAuthGuard)
   @Patch(":id")
-  update(@Param("id", ParseIntPipe) id: number, @Body() dto: UpdateUserDto) {
-    return this.users.update(id, dto);
+  async update(
+    @Param("id", ParseIntPipe) id: number,
+    @Body() dto: UpdateUserDto,
+    @CurrentUser() me: AuthUser,
+    @Ip() ip: string,
+  ) {
+    await this.visible(me, id);
+    if (dto.role !== undefined && !isAdmin(me)) {
+      throw new ForbiddenException("Only admins can change roles");
+    }
+    assertMayAssign(me, dto);
+    return this.users.update(id, dto, actorOf(me, ip));
+  }
+  @Roles("admin")
+  @Post(":id/unlock")
+  @HttpCode(200)
+  async unlock(@Param("id", ParseIntPipe) id: number, @CurrentUser() me: AuthUser) {
+    const user = await this.visible(me, id);
+    return this.auth.unlock(user, me.id);
   }
-  @UseGuards(JwtAuthGuard)
+  @Roles("admin")
   @Delete(":id")
-  remove(@Param("id", ParseIntPipe) id: number) {
-    return this.users.remove(id);
+  async remove(@Param("id", ParseIntPipe) id: number, @CurrentUser() me: AuthUser, @Ip() ip: string) {
+    await this.visible(me, id);
+    return this.users.remove(id, actorOf(me, ip));
   }
 }
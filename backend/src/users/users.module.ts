@@ -1,12 +1,17 @@
 // src/users/users.module.ts
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from './user.entity';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
+import { AuthModule } from '../auth/auth.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
+import { AuditModule } from '../audit/audit.module';
+import { ParametersModule } from '../parameters/parameters.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([User])],
+  // AuthModule for the lockout override; it needs UsersService in turn
+  imports: [TypeOrmModule.forFeature([User]), forwardRef(() => AuthModule), OrganizationsModule, AuditModule, ParametersModule],
   providers: [UsersService],
   controllers: [UsersController],
   exports: [UsersService],
@@ -1,35 +1,82 @@
 // src/users/users.service.ts
-import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Injectable, BadRequestException, NotFoundException, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, FindOptionsWhere } from 'typeorm';
 import * as bcrypt from 'bcrypt';
-import { User } from './user.entity';
+import { Role, User } from './user.entity';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { CROSS_ORG_ROLE, OrgScope } from '../organizations/org-scope';
+import { AuditActor, AuditService } from '../audit/audit.service';
+import { ParametersService } from '../parameters/parameters.service';
 
 @Injectable()
-export class UsersService {
-  constructor(@InjectRepository(User) private repo: Repository<User>) {}
+export class UsersService implements OnModuleInit {
+  private log = new Logger(UsersService.name);
 
-  async create(dto: CreateUserDto): Promise<Omit<User, 'passwordHash'>> {
+  constructor(
+    @InjectRepository(User) private repo: Repository<User>,
+    private readonly orgs: OrganizationsService,
+    private readonly audit: AuditService,
+    private readonly parameters: ParametersService,
+  ) {}
+
+  // creating users is admin-only, so the first (cross-org) admin comes from ADMIN_EMAIL/ADMIN_PASSWORD
+  async onModuleInit() {
+    const email = process.env.ADMIN_EMAIL;
+    const password = process.env.ADMIN_PASSWORD;
+    if (!email || !password) return;
+    if (await this.repo.exists({ where: { role: CROSS_ORG_ROLE } })) return;
+
+    // deployments from before organizations bootstrapped a plain admin with this email
+    const existing = await this.repo.findOne({ where: { email } });
+    if (existing) {
+      await this.repo.update({ id: existing.id }, { role: CROSS_ORG_ROLE, organizationId: null });
+      await this.repo.increment({ id: existing.id }, 'tokenVersion', 1);
+      await this.audit.record({
+        action: 'user.update',
+        targetType: 'user',
+        target: existing.id,
+        detail: { fields: ['role', 'organizationId'], role: CROSS_ORG_ROLE },
+      });
+      this.log.log(`promoted ${email} to ${CROSS_ORG_ROLE}`);
+      return;
+    }
+    await this.create({ email, password, name: 'Administrator', role: CROSS_ORG_ROLE });
+    this.log.log(`created initial ${CROSS_ORG_ROLE} ${email}`);
+  }
+
+  // create/update/remove take the acting user for the audit log; null means the system itself
+  async create(dto: CreateUserDto, actor: AuditActor | null = null): Promise<Omit<User, 'passwordHash'>> {
     const exists = await this.repo.findOne({ where: { email: dto.email } });
     if (exists) throw new BadRequestException('Email already in use');
 
+    const role = dto.role ?? 'viewer';
     const passwordHash = await bcrypt.hash(dto.password, 10);
     const user = this.repo.create({
       email: dto.email,
       passwordHash,
       name: dto.name,
-      role: dto.role ?? 'viewer',
+      role,
+      organizationId: await this.membership(role, dto.organizationId ?? null),
     });
     const saved = await this.repo.save(user);
+    await this.audit.record({
+      action: 'user.create',
+      actor,
+      targetType: 'user',
+      target: saved.id,
+      detail: { email: saved.email, role: saved.role, organizationId: saved.organizationId },
+    });
     // strip hash
     const { passwordHash: _, ...safe } = saved as any;
     return safe;
   }
 
-  async findAll(): Promise<Omit<User, 'passwordHash'>[]> {
-    return this.repo.find(); // passwordHash is select:false, so it won’t come back
+  async findAll(scope: OrgScope): Promise<Omit<User, 'passwordHash'>[]> {
+    // passwordHash is select:false, so it won’t come back
+    return this.repo.find({ where: scope === null ? {} : { organizationId: scope } });
   }
 
   async findOne(id: number): Promise<Omit<User, 'passwordHash'>> {
@@ -38,7 +85,7 @@ export class UsersService {
     return user;
   }
 
-  async update(id: number, dto: UpdateUserDto): Promise<Omit<User, 'passwordHash'>> {
+  async update(id: number, dto: UpdateUserDto, actor: AuditActor | null = null): Promise<Omit<User, 'passwordHash'>> {
     const user = await this.repo.findOne({ where: { id } });
     if (!user) throw new NotFoundException('User not found');
 
@@ -53,16 +100,46 @@ export class UsersService {
     }
 
     if (dto.name !== undefined) user.name = dto.name;
+    if (dto.unitProfile !== undefined) {
+      const profile = dto.unitProfile && { system: dto.unitProfile.system, overrides: dto.unitProfile.overrides ?? {} };
+      // refuse overrides the registry can not honour now, rather than ignore them on every request
+      if (profile) this.parameters.unitPlan(profile);
+      user.unitProfile = profile;
+    }
+    const roleChanged = !!dto.role && dto.role !== user.role;
     if (dto.role) user.role = dto.role;
+    if (roleChanged || dto.organizationId !== undefined) {
+      user.organizationId = await this.membership(user.role, dto.organizationId ?? user.organizationId);
+    }
 
     const saved = await this.repo.save(user);
+    // outstanding access and refresh tokens carry the old password/role
+    if (dto.password || roleChanged) await this.repo.increment({ id }, 'tokenVersion', 1);
+    // which fields were sent, never the password itself
+    const fields = Object.keys(dto).filter((k) => dto[k as keyof UpdateUserDto] !== undefined);
+    await this.audit.record({
+      action: 'user.update',
+      actor,
+      targetType: 'user',
+      target: id,
+      detail: { fields, ...(dto.role ? { role: dto.role } : {}) },
+    });
     const { passwordHash: _, ...safe } = saved as any;
     return safe;
   }
 
-  async remove(id: number): Promise<{ deleted: true }> {
+  /** Organization a user with `role` ends up in: none for superadmins, an existing one for everybody else. */
+  private async membership(role: Role, organizationId: number | null): Promise<number | null> {
+    if (role === CROSS_ORG_ROLE) return null;
+    if (organizationId == null) throw new BadRequestException('organizationId is required');
+    return (await this.orgs.findOne(organizationId)).id;
+  }
+
+  async remove(id: number, actor: AuditActor | null = null): Promise<{ deleted: true }> {
+    const user = await this.repo.findOne({ where: { id } });
     const result = await this.repo.delete({ id } as FindOptionsWhere<User>);
     if (result.affected === 0) throw new NotFoundException('User not found');
+    await this.audit.record({ action: 'user.delete', actor, targetType: 'user', target: id, detail: { email: user?.email } });
     return { deleted: true };
   }
 
@@ -71,7 +148,17 @@ export class UsersService {
     return this.repo
       .createQueryBuilder('u')
       .addSelect('u.passwordHash')
+      .addSelect('u.tokenVersion')
       .where('u.email = :email', { email })
       .getOne();
   }
+
+  /** Current role and token version, for checking a token against the database. */
+  async findAuthState(id: number) {
+    return this.repo
+      .createQueryBuilder('u')
+      .addSelect('u.tokenVersion')
+      .where('u.id = :id', { id })
+      .getOne();
+  }
 }
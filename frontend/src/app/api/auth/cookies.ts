@@ -0,0 +1,45 @@
+// app/api/auth/cookies.ts
+import type { NextResponse } from "next/server";
+
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
+export const ACCESS_COOKIE = "access_token";
+export const REFRESH_COOKIE = "refresh_token";
+
+const REFRESH_MAX_AGE = 60 * 60 * 24 * 30; // matches the backend's default REFRESH_TTL_DAYS
+
+// shape of /auth/login and /auth/refresh responses
+export type TokenPair = {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number; // seconds
+  user: unknown;
+};
+
+// httpOnly so page scripts never see the refresh token; middleware and the backend read them
+export function setAuthCookies(resp: NextResponse, data: TokenPair) {
+  const base = {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+  };
+  resp.cookies.set(ACCESS_COOKIE, data.access_token, { ...base, maxAge: data.expires_in });
+  resp.cookies.set(REFRESH_COOKIE, data.refresh_token, { ...base, maxAge: REFRESH_MAX_AGE });
+}
+
+export function clearAuthCookies(resp: NextResponse) {
+  resp.cookies.delete(ACCESS_COOKIE);
+  resp.cookies.delete(REFRESH_COOKIE);
+}
+
+/** Trade a refresh token with the backend; null when it was refused. */
+export async function refreshTokens(refreshToken: string): Promise<TokenPair | null> {
+  const res = await fetch(`${API_URL}/auth/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  if (!res.ok) return null;
+  const data = await res.json();
+  return data?.access_token && data?.refresh_token ? data : null;
+}
@@ -1,16 +1,22 @@
 // app/api/auth/login/route.ts
 import { NextResponse } from "next/server";
-
-const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
+import { API_URL, setAuthCookies } from "../cookies";
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
 
-    // Forward to NestJS auth
+    // Forward to NestJS auth, naming the client: the backend throttles logins per address.
+    // Next fills X-Forwarded-For from the socket unless a proxy in front already set it;
+    // the last entry is the one our own side added
+    const clientIp = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim();
     const res = await fetch(`${API_URL}/auth/login`, {
       method: "POST",
-      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...(clientIp ? { "X-Forwarded-For": clientIp } : {}),
+      },
       body: JSON.stringify(body),
     });
 
@@ -19,22 +25,17 @@ export async function POST(req: Request) {
       return NextResponse.json(err || { message: "Login failed" }, { status: res.status });
     }
 
-    const data = await res.json(); // { access_token, user }
+    const data = await res.json(); // { access_token, refresh_token, expires_in, user }
     const token = data?.access_token;
-    if (!token) {
+    if (!token || !data?.refresh_token) {
       return NextResponse.json({ message: "Missing token" }, { status: 500 });
     }
 
+    // the refresh token stays in its httpOnly cookie
     const resp = NextResponse.json({ user: data.user, access_token: token });
 
-    // Set httpOnly cookie so middleware can read it
-    resp.cookies.set("access_token", token, {
-      httpOnly: true,
-      sameSite: "lax",
-      secure: process.env.NODE_ENV === "production",
-      path: "/",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-    });
+    // Set httpOnly cookies so middleware can read them
+    setAuthCookies(resp, data);
 
     return resp;
   } catch (e) {
@@ -0,0 +1,19 @@
+// app/api/auth/logout/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { API_URL, REFRESH_COOKIE, clearAuthCookies } from "../cookies";
+
+export async function POST(req: NextRequest) {
+  const refreshToken = req.cookies.get(REFRESH_COOKIE)?.value;
+  if (refreshToken) {
+    // revoke server-side; the cookies go either way
+    await fetch(`${API_URL}/auth/logout`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    }).catch(() => undefined);
+  }
+
+  const resp = NextResponse.json({ ok: true });
+  clearAuthCookies(resp);
+  return resp;
+}
@@ -0,0 +1,18 @@
+// app/api/auth/refresh/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { REFRESH_COOKIE, clearAuthCookies, refreshTokens, setAuthCookies } from "../cookies";
+
+// called by the page when the API answers 401; rotates both cookies
+export async function POST(req: NextRequest) {
+  const refreshToken = req.cookies.get(REFRESH_COOKIE)?.value;
+  const data = refreshToken ? await refreshTokens(refreshToken).catch(() => null) : null;
+  if (!data) {
+    const resp = NextResponse.json({ message: "Session expired" }, { status: 401 });
+    clearAuthCookies(resp);
+    return resp;
+  }
+
+  const resp = NextResponse.json({ user: data.user, access_token: data.access_token });
+  setAuthCookies(resp, data);
+  return resp;
+}
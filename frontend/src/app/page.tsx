@@ -6,7 +6,7 @@ import {
   Play, Pause, Rewind, FastForward, Gauge, Map as MapIcon, RefreshCw, Loader2
 } from "lucide-react";
 import {
-  LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine,
+  LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine, ReferenceArea,
 } from "recharts";
 import { io, Socket } from "socket.io-client";
 import {
@@ -15,7 +15,13 @@ import {
 import "leaflet/dist/leaflet.css";
 
 // ---- Types ----
-export type FlightKey = { flightNumber: string; date: number };
+// registration picks the aircraft when several flew the flight number that day
+export type FlightKey = { flightNumber: string; date: number; registration?: string };
+
+const flightLabel = (k: FlightKey) => `${k.flightNumber}:${k.date}${k.registration ? `@${k.registration}` : ""}`;
+const flightQuery = (k: FlightKey) =>
+  `flightNumber=${encodeURIComponent(k.flightNumber)}&date=${k.date}` +
+  (k.registration ? `&registration=${encodeURIComponent(k.registration)}` : "");
 export type FdrPoint = {
   id: number;
   ts: number; // epoch ms (UTC)
@@ -35,6 +41,29 @@ export type FdrPoint = {
   ap1Engaged?: number | null;
   ap2Engaged?: number | null;
   airGround?: number | null;
+  extra?: Record<string, number> | null; // registered parameters without a column of their own
+  phase?: FlightPhase | null;
+};
+
+// one entry of GET /pilot/parameters
+type ParameterInfo = {
+  name: string;
+  label: string;
+  unit: string | null;
+  type: "float" | "integer" | "boolean";
+  min: number | null;
+  max: number | null;
+  source: "recorded" | "derived";
+};
+
+export type FlightPhase = "taxi" | "takeoff" | "climb" | "cruise" | "descent" | "approach" | "landing";
+export type PhaseInterval = {
+  phase: FlightPhase;
+  startIdx: number;
+  endIdx: number;
+  startTs: number;
+  endTs: number;
+  durationSec: number;
 };
 
 type Snapshot = {
@@ -43,13 +72,146 @@ type Snapshot = {
   total: number;
   playing: boolean;
   rate: number;
+  phase?: FlightPhase | null;
   point: FdrPoint | null;
 };
 
+type PartyState = {
+  roomId: string;
+  key: FlightKey;
+  controller: string; // socket id driving playback
+  members: string[];
+};
+
+// what a share link grants, from GET /share/replay
+type SharedReplay = {
+  key: FlightKey;
+  from: number | null; // epoch ms window; null ends are open
+  to: number | null;
+  readOnly: boolean;
+  expiresAt: string;
+};
+
+export type FlightSummary = {
+  flightId: number;
+  flightNumber: string;
+  date: number;
+  registration: string | null;
+  aircraftType: string | null;
+  records: number;
+  firstUtc: string;
+  lastUtc: string;
+  firstTs: number;
+  lastTs: number;
+  durationSec: number;
+  maxPressureAltitude: number | null;
+  maxAirspeed: number | null;
+  bbox: { minLat: number | null; maxLat: number | null; minLon: number | null; maxLon: number | null } | null;
+  departure: FlightEnd | null;
+  arrival: FlightEnd | null;
+};
+
+// matched from the first and last ground fixes, GET /pilot/route
+export type FlightEnd = {
+  airport: string;
+  iata: string | null;
+  name: string | null;
+  municipality: string | null;
+  runway: string | null;
+};
+export type FlightRoute = { departure: FlightEnd | null; arrival: FlightEnd | null };
+
 // ---- Helpers ----
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000";
 const NS_URL = `${API_URL}/pilot`;
 
+// viewers may watch; these roles may also drive playback (mirrors the gateway)
+const CONTROL_ROLES = ["pilot", "admin", "superadmin"];
+
+// guests open the page from a share link (/?share=<token>) and have no session
+function shareToken(): string | null {
+  if (typeof window === "undefined") return null;
+  return new URLSearchParams(window.location.search).get("share");
+}
+
+// guests replay through /share/replay, which takes the flight from the link instead of the query
+const replayApi = () => (shareToken() ? `${API_URL}/share/replay` : `${API_URL}/pilot`);
+// the instruments and labels are in aviation units, whatever the user saved for the API
+const COCKPIT_UNITS = "imperial";
+const replayQuery = (k: FlightKey) => `${shareToken() ? "" : `${flightQuery(k)}&`}units=${COCKPIT_UNITS}&`;
+const withUnits = (k: FlightKey) => ({ ...k, units: COCKPIT_UNITS });
+
+// token and user saved by the login page
+function storedAuth(): { token: string | null; role: string | null } {
+  if (typeof window === "undefined") return { token: null, role: null };
+  let role: string | null = null;
+  try {
+    role = JSON.parse(localStorage.getItem("user") ?? "null")?.role ?? null;
+  } catch {
+    role = null;
+  }
+  return { token: localStorage.getItem("access_token"), role };
+}
+
+// One refresh at a time: refresh tokens rotate, so a second concurrent
+// exchange of the same cookie would look like reuse and end the session.
+let refreshing: Promise<string | null> | null = null;
+function refreshAccessToken(): Promise<string | null> {
+  refreshing ??= fetch("/api/auth/refresh", { method: "POST" })
+    .then(async (res) => {
+      if (!res.ok) return null;
+      const data = await res.json();
+      if (data?.access_token) localStorage.setItem("access_token", data.access_token);
+      if (data?.user) localStorage.setItem("user", JSON.stringify(data.user));
+      return (data?.access_token as string) ?? null;
+    })
+    .catch(() => null)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+function toLogin() {
+  window.location.href = `/login?next=${encodeURIComponent(window.location.pathname)}`;
+}
+
+// API calls carry the stored token; on 401 refresh once and retry
+async function apiFetch(url: string, init: RequestInit = {}) {
+  const share = shareToken();
+  if (share) {
+    const headers = new Headers(init.headers);
+    headers.set("X-Share-Token", share);
+    return fetch(url, { ...init, headers });
+  }
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return fetch(url, { ...init, headers });
+  };
+  let res = await send(storedAuth().token);
+  if (res.status !== 401) return res;
+
+  const token = await refreshAccessToken();
+  if (!token) {
+    toLogin();
+    return res;
+  }
+  res = await send(token);
+  if (res.status === 401) toLogin();
+  return res;
+}
+
+async function logout() {
+  await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
+  localStorage.removeItem("access_token");
+  localStorage.removeItem("user");
+  window.location.href = "/login";
+}
+// points requested for the whole-flight overview and for a zoomed window
+const OVERVIEW_POINTS = 3000;
+const DETAIL_POINTS = 1500;
+
 function fmtTime(ts?: number) {
   if (!ts) return "";
   const d = new Date(ts);
@@ -65,19 +227,221 @@ function computeTs(date: number, utcTime?: string) {
   return Date.UTC(y, m - 1, d, hh, mm, ss);
 }
 
+const PHASE_COLORS: Record<FlightPhase, string> = {
+  taxi: "#94a3b8",
+  takeoff: "#f97316",
+  climb: "#22c55e",
+  cruise: "#3b82f6",
+  descent: "#a855f7",
+  approach: "#eab308",
+  landing: "#ef4444",
+};
+
+const fmtEnd = (e: FlightEnd | null) => (e ? `${e.airport}${e.runway ? ` (${e.runway})` : ""}` : "?");
+const fmtRoute = (r: FlightRoute | null) => (r && (r.departure || r.arrival) ? `${fmtEnd(r.departure)} → ${fmtEnd(r.arrival)}` : null);
+
+function fmtDuration(sec: number) {
+  const h = Math.floor(sec / 3600);
+  const m = Math.floor((sec % 3600) / 60);
+  return h ? `${h}h ${String(m).padStart(2, "0")}m` : `${m}m`;
+}
+
+// ---- Parameter registry (chart picker) ----
+// charted until the registry loads, and for guests, who cannot read it
+const ALTITUDE: ParameterInfo = {
+  name: "pressureAltitude", label: "Pressure altitude", unit: "ft", type: "integer", min: null, max: null, source: "recorded",
+};
+
+function useParameters() {
+  const [parameters, setParameters] = useState<ParameterInfo[]>([ALTITUDE]);
+
+  useEffect(() => {
+    if (shareToken()) return;
+    let alive = true;
+    apiFetch(`${API_URL}/pilot/parameters`, { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const list: ParameterInfo[] = Array.isArray(data?.parameters) ? data.parameters : [];
+        // path points carry recorded values only
+        const recorded = list.filter((p) => p.source === "recorded");
+        if (alive && recorded.length) setParameters(recorded);
+      })
+      .catch((err) => console.error("fetch /pilot/parameters failed:", err));
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  return parameters;
+}
+
+const paramLabel = (p: ParameterInfo) => (p.unit ? `${p.label} (${p.unit})` : p.label);
+
+function pointValue(p: FdrPoint, name: string): number | null {
+  const v = (p as Record<string, unknown>)[name] ?? p.extra?.[name];
+  return typeof v === "number" ? v : null;
+}
+
+// ---- Flight catalog (picker) ----
+function useFlightCatalog() {
+  const [flights, setFlights] = useState<FlightSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refresh = React.useCallback(async () => {
+    if (shareToken()) return; // guests only see the shared flight
+    setLoading(true);
+    try {
+      const res = await apiFetch(`${API_URL}/pilot/flights?pageSize=200`, { cache: "no-store" });
+      if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
+      const data = await res.json();
+      setFlights(Array.isArray(data?.items) ? data.items : []);
+    } catch (err) {
+      console.error("fetch /pilot/flights failed:", err);
+      setFlights([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { flights, loading, refresh };
+}
+
+const summaryKey = (f: FlightSummary): FlightKey => ({
+  flightNumber: f.flightNumber,
+  date: f.date,
+  registration: f.registration ?? undefined,
+});
+
+// ---- Share link (guest access) ----
+function useSharedReplay(onFlight: (k: FlightKey) => void) {
+  const [guest, setGuest] = useState(false);
+  const [shared, setShared] = useState<SharedReplay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!shareToken()) return;
+    setGuest(true);
+    apiFetch(`${API_URL}/share/replay`, { cache: "no-store" })
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
+        const data: SharedReplay = await res.json();
+        setShared(data);
+        onFlight(data.key);
+      })
+      .catch((err) => {
+        console.error("fetch /share/replay failed:", err);
+        setError("This share link is invalid, expired or revoked.");
+      });
+  }, [onFlight]);
+
+  return { guest, shared, error };
+}
+
+// read-only guest link to the flight, or to the zoomed window of it
+function ShareButton({ flightId, range }: { flightId: number | null; range: { from: number; to: number } | null }) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const create = async () => {
+    if (flightId == null) return;
+    setBusy(true);
+    try {
+      const res = await apiFetch(`${API_URL}/share`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ flightId, ...range }),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
+      const data = await res.json();
+      const link = `${window.location.origin}/?share=${encodeURIComponent(data.token)}`;
+      setUrl(link);
+      navigator.clipboard?.writeText(link).catch(() => undefined);
+    } catch (err) {
+      console.error("create share link failed:", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-sm">
+      <button
+        onClick={create}
+        disabled={flightId == null || busy}
+        className="px-2 py-1 rounded-lg border hover:bg-slate-50 disabled:opacity-50"
+        title={`Read-only guest link to ${range ? "the zoomed window" : "this flight"}, valid for 72 hours`}
+      >
+        Share
+      </button>
+      {url && (
+        <input readOnly className="px-2 py-1 border rounded-lg w-40 text-xs" value={url} onFocus={(e) => e.target.select()} />
+      )}
+    </div>
+  );
+}
+
+function FlightPicker({
+  flights,
+  value,
+  onChange,
+}: {
+  flights: FlightSummary[];
+  value: FlightKey;
+  onChange: (k: FlightKey) => void;
+}) {
+  const keyOf = summaryKey;
+  const current = flightLabel(value);
+  const known = flights.some((f) => flightLabel(keyOf(f)) === current);
+  return (
+    <select
+      className="px-3 py-1.5 border rounded-xl max-w-xs"
+      value={known ? current : ""}
+      onChange={(e) => {
+        const f = flights.find((x) => flightLabel(keyOf(x)) === e.target.value);
+        if (f) onChange(keyOf(f));
+      }}
+    >
+      <option value="" disabled>
+        {flights.length ? "Pick a flight…" : "No flights"}
+      </option>
+      {flights.map((f) => (
+        <option key={f.flightId} value={flightLabel(keyOf(f))}>
+          {f.flightNumber} · {f.date}
+          {fmtRoute(f) ? ` · ${fmtRoute(f)}` : ""}
+          {f.registration ? ` · ${f.registration}${f.aircraftType ? ` (${f.aircraftType})` : ""}` : ""}
+          {" "}· {fmtDuration(f.durationSec)} · FL{Math.round((f.maxPressureAltitude ?? 0) / 100)}
+        </option>
+      ))}
+    </select>
+  );
+}
+
 // ---- Socket player (plane position from socket only) ----
-function useSocketPlayer(key: FlightKey) {
+// Each socket replays on its own cursor; inside a watch party every message
+// carries the roomId and only the party's controller may drive it.
+// guestMayDrive: the share link lets a guest drive their own cursor
+function useSocketPlayer(key: FlightKey, onPartyFlight?: (k: FlightKey) => void, guestMayDrive = false) {
   const [snap, setSnap] = useState<Snapshot | null>(null);
   const [points, setPoints] = useState<FdrPoint[]>([]);
+  const [party, setParty] = useState<PartyState | null>(null);
+  const [selfId, setSelfId] = useState<string | null>(null);
+  const [role, setRole] = useState<string | null>(null);
   const socketRef = useRef<Socket | null>(null);
   const keyRef = useRef(key);
+  const partyRef = useRef<PartyState | null>(null);
   const didResetToStartRef = useRef(false);
 
   useEffect(() => {
     keyRef.current = key;
-    didResetToStartRef.current = false;
     setPoints([]);
+    if (partyRef.current) return; // the party decides the flight
+    didResetToStartRef.current = false;
     setSnap(null);
+    socketRef.current?.emit("join", withUnits(key));
   }, [key]);
 
   const appendPoint = (p?: FdrPoint | null) => {
@@ -86,20 +450,41 @@ function useSocketPlayer(key: FlightKey) {
   };
 
   useEffect(() => {
-    const s = io(NS_URL, { transports: ["websocket"] });
+    const { token, role } = storedAuth();
+    const share = shareToken();
+    setRole(share ? null : role);
+    // the access_token cookie covers same-site deployments; auth.token covers the rest
+    const auth = share ? { share } : token ? { token } : {};
+    const s = io(NS_URL, { transports: ["websocket"], withCredentials: true, auth });
     socketRef.current = s;
 
+    s.on("connect_error", async (err) => {
+      if (share || err.message !== "Unauthorized") return;
+      const fresh = await refreshAccessToken();
+      if (!fresh) return toLogin();
+      s.auth = { token: fresh };
+      s.connect();
+    });
+
     s.on("connect", () => {
-      s.emit("join", keyRef.current);
+      setSelfId(s.id ?? null);
+      s.emit("join", withUnits(keyRef.current));
+    });
+
+    s.on("party:state", (ps: PartyState) => {
+      partyRef.current = ps;
+      setParty(ps);
     });
 
+    s.on("exception", (e: { message?: string }) => console.warn("socket:", e?.message ?? e));
+
     s.on("telemetry:snapshot", (ns: Snapshot) => {
       if (!didResetToStartRef.current && typeof ns.idx === "number" && ns.idx > 0) {
         setSnap((prev) =>
           prev ? { ...prev, idx: 0, total: ns.total, playing: ns.playing, rate: ns.rate } : { ...ns, idx: 0 }
         );
         s.emit("player:seekPoints", { ...keyRef.current, points: -ns.idx });
-        s.emit("join", keyRef.current);
+        s.emit("join", withUnits(keyRef.current));
         didResetToStartRef.current = true;
         return;
       }
@@ -113,7 +498,9 @@ function useSocketPlayer(key: FlightKey) {
         if (!prev) return prev;
         const nextIdx = typeof payload?.idx === "number" ? payload.idx : prev.idx + 1;
         const nextTotal = typeof payload?.total === "number" ? payload.total : prev.total;
-        return { ...prev, idx: nextIdx, total: nextTotal, playing: true, point };
+        const playing = typeof payload?.playing === "boolean" ? payload.playing : true;
+        const rate = typeof payload?.rate === "number" ? payload.rate : prev.rate;
+        return { ...prev, idx: nextIdx, total: nextTotal, playing, rate, point };
       });
       appendPoint(point);
     });
@@ -124,24 +511,120 @@ function useSocketPlayer(key: FlightKey) {
     };
   }, []);
 
-  const actions = React.useMemo(
-    () => ({
-      resume: () => socketRef.current?.emit("player:resume", keyRef.current),
-      pause:  () => socketRef.current?.emit("player:pause", keyRef.current),
-      back5:  () => socketRef.current?.emit("player:seekSeconds", { ...keyRef.current, seconds: -5 }),
-      fwd5:   () => socketRef.current?.emit("player:seekSeconds", { ...keyRef.current, seconds: +5 }),
-      setRate:(rate: number) => socketRef.current?.emit("player:setRate", { ...keyRef.current, rate }),
+  const actions = React.useMemo(() => {
+    const target = () =>
+      partyRef.current ? { ...keyRef.current, roomId: partyRef.current.roomId } : keyRef.current;
+    return {
+      resume: () => socketRef.current?.emit("player:resume", target()),
+      pause:  () => socketRef.current?.emit("player:pause", target()),
+      back5:  () => socketRef.current?.emit("player:seekSeconds", { ...target(), seconds: -5 }),
+      fwd5:   () => socketRef.current?.emit("player:seekSeconds", { ...target(), seconds: +5 }),
+      setRate:(rate: number) => socketRef.current?.emit("player:setRate", { ...target(), rate }),
       seekIdx:(idx: number) => {
         if (!snap) return;
         const delta = idx - snap.idx;
-        socketRef.current?.emit("player:seekPoints", { ...keyRef.current, points: delta });
-        socketRef.current?.emit("join", keyRef.current);
+        socketRef.current?.emit("player:seekPoints", { ...target(), points: delta });
+        if (!partyRef.current) socketRef.current?.emit("join", withUnits(keyRef.current));
+      },
+    };
+  }, [snap]);
+
+  const partyActions = React.useMemo(
+    () => ({
+      create: () => {
+        didResetToStartRef.current = true;
+        socketRef.current?.emit("party:create", withUnits(keyRef.current));
+      },
+      join: (roomId: string) => {
+        didResetToStartRef.current = true;
+        socketRef.current?.emit("party:join", { roomId }, (res: { ok: boolean; key: FlightKey }) => {
+          if (res?.ok) onPartyFlight?.(res.key);
+        });
+      },
+      leave: () => {
+        const ps = partyRef.current;
+        if (!ps) return;
+        partyRef.current = null;
+        setParty(null);
+        socketRef.current?.emit("party:leave", { roomId: ps.roomId });
+        socketRef.current?.emit("join", withUnits(keyRef.current)); // back to the private cursor
+      },
+      handover: (to: string) => {
+        const ps = partyRef.current;
+        if (ps) socketRef.current?.emit("party:handover", { roomId: ps.roomId, to });
       },
     }),
-    [snap]
+    [onPartyFlight]
   );
 
-  return { snap, points, actions } as const;
+  const mayControl = !!role && CONTROL_ROLES.includes(role);
+  const canControl = party ? mayControl && party.controller === selfId : mayControl || guestMayDrive;
+
+  return { snap, points, actions, party, partyActions, selfId, mayControl, canControl } as const;
+}
+
+function PartyPanel({
+  party, selfId, mayControl, actions,
+}: {
+  party: PartyState | null;
+  selfId: string | null;
+  mayControl: boolean;
+  actions: { create: () => void; join: (roomId: string) => void; leave: () => void; handover: (to: string) => void };
+}) {
+  const [roomId, setRoomId] = useState("");
+  if (!party) {
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        {mayControl && (
+          <button onClick={actions.create} className="px-3 py-1.5 rounded-xl border hover:bg-slate-50">
+            Start watch party
+          </button>
+        )}
+        <input
+          className="px-3 py-1.5 border rounded-xl w-28"
+          placeholder="Room id"
+          value={roomId}
+          onChange={(e) => setRoomId(e.target.value.trim())}
+        />
+        <button
+          onClick={() => roomId && actions.join(roomId)}
+          disabled={!roomId}
+          className="px-3 py-1.5 rounded-xl border hover:bg-slate-50 disabled:opacity-50"
+        >
+          Join
+        </button>
+      </div>
+    );
+  }
+
+  const isController = party.controller === selfId;
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span>
+        Room <b className="font-mono">{party.roomId}</b> · {party.members.length} watching ·{" "}
+        {isController ? "you control" : party.controller ? "following" : "no controller"}
+      </span>
+      {isController && party.members.length > 1 && (
+        <select
+          className="px-2 py-1 border rounded-lg"
+          value=""
+          onChange={(e) => e.target.value && actions.handover(e.target.value)}
+        >
+          <option value="">Hand over to…</option>
+          {party.members
+            .filter((m) => m !== selfId)
+            .map((m) => (
+              <option key={m} value={m}>
+                {m.slice(0, 6)}
+              </option>
+            ))}
+        </select>
+      )}
+      <button onClick={actions.leave} className="px-3 py-1.5 rounded-xl border hover:bg-slate-50">
+        Leave
+      </button>
+    </div>
+  );
 }
 
 // ---- Map (polyline from API path; plane from socket current) ----
@@ -290,6 +773,8 @@ function FlagCell({
 // ---- Manual loader hook (click to fetch) ----
 function usePathForChart(key: FlightKey) {
   const [points, setPoints] = useState<FdrPoint[]>([]);
+  const [phases, setPhases] = useState<PhaseInterval[]>([]);
+  const [route, setRoute] = useState<FlightRoute | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const acRef = useRef<AbortController | null>(null);
@@ -303,12 +788,18 @@ function usePathForChart(key: FlightKey) {
     setError(null);
 
     try {
-      const res = await fetch(
-        `${API_URL}/pilot/path?flightNumber=${encodeURIComponent(key.flightNumber)}&date=${key.date}`,
-        { signal: ac.signal, cache: 'no-store' }
-      );
+      const qs = replayQuery(key);
+      const [res, phaseRes, routeRes] = await Promise.all([
+        apiFetch(`${replayApi()}/path?${qs}maxPoints=${OVERVIEW_POINTS}`, { signal: ac.signal, cache: 'no-store' }),
+        apiFetch(`${replayApi()}/phases?${qs}`, { signal: ac.signal, cache: 'no-store' }),
+        apiFetch(`${replayApi()}/route?${qs}`, { signal: ac.signal, cache: 'no-store' }),
+      ]);
       if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
       const data = await res.json();
+      // phases are decoration only; a failure there should not hide the path
+      const phaseData = phaseRes.ok ? await phaseRes.json() : null;
+      setPhases(Array.isArray(phaseData?.phases) ? phaseData.phases : []);
+      setRoute(routeRes.ok ? await routeRes.json() : null);
 
       const arr: any[] = Array.isArray(data?.path) ? data.path : Array.isArray(data) ? data : [];
 
@@ -332,6 +823,8 @@ function usePathForChart(key: FlightKey) {
         ap1Engaged: toNum(p.ap1Engaged),
         ap2Engaged: toNum(p.ap2Engaged),
         airGround: toNum(p.airGround),
+        extra: p.extra ?? null,
+        phase: p.phase ?? null,
       }));
 
       setPoints(pts);
@@ -340,38 +833,86 @@ function usePathForChart(key: FlightKey) {
       console.error('fetch /pilot/path failed:', err);
       setError('Failed to load path.');
       setPoints([]);
+      setPhases([]);
+      setRoute(null);
     } finally {
       setLoading(false);
       if (acRef.current === ac) acRef.current = null;
     }
-  }, [key.flightNumber, key.date]);
+  }, [key]);
+
+  // Finer level for just the visible time window (chart zoom)
+  const [detail, setDetail] = useState<FdrPoint[] | null>(null);
+  const loadDetail = React.useCallback(
+    async (from: number, to: number) => {
+      const qs = replayQuery(key);
+      try {
+        const res = await apiFetch(
+          `${replayApi()}/path?${qs}from=${Math.floor(from)}&to=${Math.ceil(to)}&maxPoints=${DETAIL_POINTS}`,
+          { cache: 'no-store' }
+        );
+        if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}`);
+        const data = await res.json();
+        setDetail(Array.isArray(data?.path) ? data.path : []);
+      } catch (err) {
+        console.error('fetch /pilot/path window failed:', err);
+      }
+    },
+    [key]
+  );
+  const clearDetail = React.useCallback(() => setDetail(null), []);
 
   // Clear when key changes
   useEffect(() => {
     setPoints([]);
+    setPhases([]);
+    setRoute(null);
+    setDetail(null);
     setError(null);
     if (acRef.current) {
       acRef.current.abort();
       acRef.current = null;
     }
-  }, [key.flightNumber, key.date]);
+  }, [key.flightNumber, key.date, key.registration]);
 
-  return { points, load, loading, error };
+  return { points, phases, route, detail, loadDetail, clearDetail, load, loading, error };
 }
 
 // ---- Main page ----
 export default function FlightReplayPage() {
   const [flightNumber, setFlightNumber] = useState("122");
   const [date, setDate] = useState(20250324);
+  const [registration, setRegistration] = useState("");
 
-  const key = useMemo<FlightKey>(() => ({ flightNumber, date }), [flightNumber, date]);
+  const key = useMemo<FlightKey>(
+    () => ({ flightNumber, date, registration: registration.trim() || undefined }),
+    [flightNumber, date, registration]
+  );
+  const pickFlight = React.useCallback((k: FlightKey) => {
+    setFlightNumber(k.flightNumber);
+    setDate(k.date);
+    setRegistration(k.registration ?? "");
+  }, []);
+  const { flights } = useFlightCatalog();
+  const { guest, shared, error: shareError } = useSharedReplay(pickFlight);
+  const flightId = flights.find((f) => flightLabel(summaryKey(f)) === flightLabel(key))?.flightId ?? null;
 
   // Manual-loaded path (used by map + chart)
-  const { points: pathForChart, load: loadPath, loading: loadingPath, error: pathError } =
-    usePathForChart(key);
+  const {
+    points: pathForChart, phases, route, detail, loadDetail, clearDetail,
+    load: loadPath, loading: loadingPath, error: pathError,
+  } = usePathForChart(key);
+  const [zoomSel, setZoomSel] = useState<{ a?: number; b?: number }>({});
+  const parameters = useParameters();
+  const [chartName, setChartName] = useState(ALTITUDE.name);
+  const chartParam = parameters.find((p) => p.name === chartName) ?? ALTITUDE;
 
   // Socket player
-  const { snap, actions } = useSocketPlayer(key);
+  const { snap, actions, party, partyActions, selfId, mayControl, canControl } = useSocketPlayer(
+    key,
+    pickFlight,
+    shared?.readOnly === false,
+  );
   const planeCurrent: FdrPoint | null = snap?.point ?? null;
 
   const idx = snap?.idx ?? 0;
@@ -380,14 +921,21 @@ export default function FlightReplayPage() {
 
   const chartData = useMemo(
     () =>
-      (pathForChart ?? []).map((p) => ({
+      (detail ?? pathForChart ?? []).map((p) => ({
         ts: p.ts,
-        alt: p.pressureAltitude ?? 0,
+        value: pointValue(p, chartParam.name),
         id: p.id,
       })),
-    [pathForChart]
+    [detail, pathForChart, chartParam.name]
   );
 
+  const finishZoom = () => {
+    const { a, b } = zoomSel;
+    setZoomSel({});
+    if (a == null || b == null || a === b) return;
+    loadDetail(Math.min(a, b), Math.max(a, b));
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-indigo-50 to-white">
       <header className="sticky top-0 z-10 backdrop-blur bg-white/60 border-b">
@@ -395,19 +943,48 @@ export default function FlightReplayPage() {
           <div className="text-xl font-semibold flex items-center gap-2">
             <Gauge className="h-5 w-5" /> Flight Replay
           </div>
+          {fmtRoute(route) && (
+            <span
+              className="text-sm text-slate-600"
+              title={[route?.departure?.name, route?.arrival?.name].filter(Boolean).join(" → ")}
+            >
+              {fmtRoute(route)}
+            </span>
+          )}
 
           <div className="ml-auto flex items-center gap-2">
-            <input
-              className="px-3 py-1.5 border rounded-xl"
-              value={flightNumber}
-              onChange={(e) => setFlightNumber(e.target.value)}
-            />
-            <input
-              type="number"
-              className="px-3 py-1.5 border rounded-xl w-36"
-              value={String(date)}
-              onChange={(e) => setDate(e.target.value === "" ? 0 : Number(e.target.value))}
-            />
+            {guest ? (
+              <span className="text-sm text-slate-600">
+                Shared replay · <b>{flightLabel(key)}</b>
+                {shared && ` · ${shared.readOnly ? "view only" : "own playback"} · until ${new Date(shared.expiresAt).toLocaleString()}`}
+              </span>
+            ) : (
+              <>
+                <FlightPicker
+                  flights={flights}
+                  value={key}
+                  onChange={pickFlight}
+                />
+                <input
+                  className="px-3 py-1.5 border rounded-xl"
+                  value={flightNumber}
+                  onChange={(e) => setFlightNumber(e.target.value)}
+                />
+                <input
+                  type="number"
+                  className="px-3 py-1.5 border rounded-xl w-36"
+                  value={String(date)}
+                  onChange={(e) => setDate(e.target.value === "" ? 0 : Number(e.target.value))}
+                />
+                <input
+                  className="px-3 py-1.5 border rounded-xl w-28"
+                  placeholder="Tail"
+                  title="Aircraft registration, needed when several aircraft flew this flight number that day"
+                  value={registration}
+                  onChange={(e) => setRegistration(e.target.value)}
+                />
+              </>
+            )}
 
             <button
               onClick={loadPath}
@@ -420,16 +997,49 @@ export default function FlightReplayPage() {
               {loadingPath ? 'Loading…' : 'Load path'}
             </button>
 
+            {!guest && (
+              <div className="flex items-center gap-1 text-sm">
+                {(["kml", "gpx", "geojson"] as const).map((fmt) => (
+                  <a
+                    key={fmt}
+                    className="px-2 py-1 rounded-lg border hover:bg-slate-50 uppercase"
+                    href={`${API_URL}/pilot/export?${flightQuery(key)}&format=${fmt}`}
+                    title={`Download track as ${fmt.toUpperCase()}`}
+                  >
+                    {fmt}
+                  </a>
+                ))}
+              </div>
+            )}
+            {mayControl && !guest && (
+              <ShareButton
+                key={flightId ?? "none"}
+                flightId={flightId}
+                range={detail?.length ? { from: detail[0].ts, to: detail[detail.length - 1].ts } : null}
+              />
+            )}
+
             <span className="text-sm text-slate-500">Server: {NS_URL}</span>
+            {!guest && (
+              <button onClick={logout} className="px-3 py-1.5 rounded-xl border hover:bg-slate-50 text-sm">
+                Log out
+              </button>
+            )}
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-6 flex flex-col gap-4">
+        {shareError && (
+          <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded px-3 py-1.5">{shareError}</div>
+        )}
         {/* Controls */}
         <div className="bg-white rounded-2xl shadow p-4">
           <div className="font-medium mb-2 justify-center flex">Controls</div>
-          <div className="flex items-center gap-2 justify-center">
+          <div className="mb-3 flex justify-center">
+            <PartyPanel party={party} selfId={selfId} mayControl={mayControl} actions={partyActions} />
+          </div>
+          <fieldset disabled={!canControl} className="flex items-center gap-2 justify-center disabled:opacity-50">
             <button onClick={actions.back5} className="px-10 py-2 rounded-xl border hover:bg-slate-50 flex items-center gap-2">
               <Rewind className="h-4 w-4" /> 5s
             </button>
@@ -445,11 +1055,12 @@ export default function FlightReplayPage() {
             <button onClick={actions.fwd5} className="px-10 py-2 rounded-xl border hover:bg-slate-50 flex items-center gap-2">
               5s <FastForward className="h-4 w-4" />
             </button>
-          </div>
+          </fieldset>
 
           <div className="mt-3 text-sm text-slate-600 space-y-1 flex items-center justify-center flex-col">
             <div> Status: <b>{snap?.playing ? "▶️ Playing" : "⏸️ Paused"}</b> </div>
-            <div> Rate: <RateSelect value={snap?.rate ?? 1} onChange={(v) => actions.setRate(v)} /> </div>
+            <div> Phase: <b className="capitalize">{planeCurrent?.phase ?? snap?.phase ?? "—"}</b> </div>
+            <div> Rate: <RateSelect value={snap?.rate ?? 1} disabled={!canControl} onChange={(v) => actions.setRate(v)} /> </div>
           </div>
         </div>
 
@@ -471,16 +1082,57 @@ export default function FlightReplayPage() {
           <div className="bg-white rounded-2xl shadow p-4">
             <div className="mb-2 flex items-center justify-between">
               <div className="text-sm text-slate-600">Time: <b>{fmtTime(planeCurrent?.ts)}</b></div>
-              <div className="text-sm text-slate-600">Alt: <b>{planeCurrent?.pressureAltitude ?? 0}</b> ft</div>
+              <div className="flex items-center gap-3">
+                <select
+                  value={chartParam.name}
+                  onChange={(e) => setChartName(e.target.value)}
+                  className="text-xs px-2 py-1 rounded-lg border bg-white"
+                  aria-label="Charted parameter"
+                >
+                  {parameters.map((p) => (
+                    <option key={p.name} value={p.name}>{paramLabel(p)}</option>
+                  ))}
+                </select>
+                {detail ? (
+                  <button onClick={clearDetail} className="text-xs px-2 py-1 rounded-lg border hover:bg-slate-50">
+                    Reset zoom
+                  </button>
+                ) : (
+                  <span className="text-xs text-slate-400">Drag on the chart to zoom</span>
+                )}
+                <div className="text-sm text-slate-600">Alt: <b>{planeCurrent?.pressureAltitude ?? 0}</b> ft</div>
+              </div>
             </div>
             <div className="h-48">
               <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={chartData} margin={{ left: 12, right: 12, top: 8, bottom: 8 }}>
+                <LineChart
+                  data={chartData}
+                  margin={{ left: 12, right: 12, top: 8, bottom: 8 }}
+                  onMouseDown={(st) => st?.activeLabel != null && setZoomSel({ a: Number(st.activeLabel) })}
+                  onMouseMove={(st) =>
+                    zoomSel.a != null && st?.activeLabel != null && setZoomSel((z) => ({ ...z, b: Number(st.activeLabel) }))
+                  }
+                  onMouseUp={finishZoom}
+                >
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="ts" minTickGap={24} tickFormatter={(v) => fmtTime(v)} type="number" domain={["dataMin", "dataMax"]} />
                   <YAxis width={46} />
-                  <Tooltip labelFormatter={(v) => fmtTime(Number(v))} formatter={(val) => [val, "Alt (ft)"]} />
-                  <Line type="monotone" dataKey="alt" dot={false} />
+                  <Tooltip labelFormatter={(v) => fmtTime(Number(v))} formatter={(val) => [val, paramLabel(chartParam)]} />
+                  {phases.map((ph) => (
+                    <ReferenceArea
+                      key={`${ph.phase}-${ph.startIdx}`}
+                      x1={ph.startTs}
+                      x2={ph.endTs}
+                      fill={PHASE_COLORS[ph.phase]}
+                      fillOpacity={0.15}
+                      stroke="none"
+                      ifOverflow="hidden"
+                    />
+                  ))}
+                  <Line type="monotone" dataKey="value" dot={false} isAnimationActive={false} />
+                  {zoomSel.a != null && zoomSel.b != null && (
+                    <ReferenceArea x1={zoomSel.a} x2={zoomSel.b} fill="#6366f1" fillOpacity={0.2} strokeOpacity={0.3} />
+                  )}
                   {markerTs != null && (
                     <ReferenceLine
                       x={markerTs}
@@ -494,8 +1146,10 @@ export default function FlightReplayPage() {
               </ResponsiveContainer>
             </div>
 
+            <PhaseStrip phases={phases} />
+
             {/* Timeline slider (socket-backed) */}
-            <div className="mt-3 flex items-center gap-3">
+            <fieldset disabled={!canControl} className="mt-3 flex items-center gap-3">
               <TimelineSlider
                 idx={idx}
                 total={total}
@@ -503,7 +1157,7 @@ export default function FlightReplayPage() {
                 actions={{ seekIdx: actions.seekIdx, pause: actions.pause, resume: actions.resume }}
               />
               <div className="text-xs text-slate-600 w-28 text-right">{idx + 1} / {total || 0}</div>
-            </div>
+            </fieldset>
           </div>
 
           <div className="bg-white rounded-2xl shadow p-4">
@@ -539,9 +1193,11 @@ export default function FlightReplayPage() {
   );
 }
 
-function RateSelect({ value, onChange }: { value: number; onChange: (v: number) => void }) {
+function RateSelect({
+  value, onChange, disabled,
+}: { value: number; onChange: (v: number) => void; disabled?: boolean }) {
   return (
-    <select className="ml-2 px-2 py-1 border rounded-lg" value={value} onChange={(e) => onChange(Number(e.target.value))}>
+    <select className="ml-2 px-2 py-1 border rounded-lg" value={value} disabled={disabled} onChange={(e) => onChange(Number(e.target.value))}>
       {[0.5, 1, 2, 4, 8].map((v) => (
         <option key={v} value={v}>
           {v}x
@@ -551,6 +1207,27 @@ function RateSelect({ value, onChange }: { value: number; onChange: (v: number)
   );
 }
 
+function PhaseStrip({ phases }: { phases: PhaseInterval[] }) {
+  if (!phases.length) return null;
+  const t0 = phases[0].startTs;
+  const span = Math.max(1, phases[phases.length - 1].endTs - t0);
+  return (
+    <div className="mt-3 flex h-3 w-full overflow-hidden rounded">
+      {phases.map((ph, i) => {
+        // each band runs to the start of the next so the strip has no gaps
+        const end = phases[i + 1]?.startTs ?? ph.endTs;
+        return (
+          <div
+            key={`${ph.phase}-${ph.startIdx}`}
+            title={`${ph.phase} · ${fmtTime(ph.startTs)}–${fmtTime(ph.endTs)}`}
+            style={{ width: `${((end - ph.startTs) / span) * 100}%`, background: PHASE_COLORS[ph.phase] }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
 // Slider component (unchanged)
 function TimelineSlider({
   idx, total, playing, actions,
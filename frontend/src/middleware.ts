@@ -0,0 +1,41 @@
+// middleware.ts
+import { NextRequest, NextResponse } from "next/server";
+import { ACCESS_COOKIE, REFRESH_COOKIE, refreshTokens, setAuthCookies } from "./app/api/auth/cookies";
+
+// refresh a little early so the token does not lapse mid-page-load
+const EXPIRY_SLACK_SEC = 30;
+
+function expiresSoon(token: string): boolean {
+  try {
+    const payload = JSON.parse(atob(token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof payload?.exp !== "number" || payload.exp - EXPIRY_SLACK_SEC <= Date.now() / 1000;
+  } catch {
+    return true;
+  }
+}
+
+// Pages need a session: a live access cookie passes, an expired one is
+// refreshed transparently, and no session at all goes to the login page.
+export async function middleware(req: NextRequest) {
+  // guests come from a share link; the backend checks its token on every call
+  if (req.nextUrl.pathname === "/" && req.nextUrl.searchParams.has("share")) return NextResponse.next();
+
+  const access = req.cookies.get(ACCESS_COOKIE)?.value;
+  if (access && !expiresSoon(access)) return NextResponse.next();
+
+  const refresh = req.cookies.get(REFRESH_COOKIE)?.value;
+  const data = refresh ? await refreshTokens(refresh).catch(() => null) : null;
+  if (!data) {
+    const url = new URL("/login", req.url);
+    url.searchParams.set("next", req.nextUrl.pathname);
+    return NextResponse.redirect(url);
+  }
+
+  const resp = NextResponse.next();
+  setAuthCookies(resp, data);
+  return resp;
+}
+
+export const config = {
+  matcher: ["/((?!api|login|_next|favicon.ico).*)"],
+};